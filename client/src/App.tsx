@@ -7,13 +7,22 @@ import { ThemeProvider } from "./contexts/ThemeContext";
 import BackgroundMusic from "./components/BackgroundMusic";
 import Home from "./pages/Home";
 import Game from "./pages/Game";
+import Editor from "./pages/Editor";
+import Levels from "./pages/Levels";
+import Daily from "./pages/Daily";
+import Versus from "./pages/Versus";
 
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/levels"} component={Levels} />
+      <Route path={"/daily"} component={Daily} />
+      <Route path={"/versus"} component={Versus} />
+      <Route path={"/game/:level"} component={Game} />
       <Route path={"/game"} component={Game} />
+      <Route path={"/editor"} component={Editor} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -0,0 +1,137 @@
+/**
+ * Auto Play Demo Component
+ * - The solver playing a board by itself, cascades and all, on a mini board
+ * - Pick the strategy to watch; a finished or stuck board deals a new one
+ * - Starts on request, so the home page isn't busy thinking until asked
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Bot, Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import MiniBoard from '@/components/MiniBoard';
+import { getPhaseDuration } from '@/components/GameBoard';
+import { createGameState, isFinished, reduceGame } from '@shared/game/gameEngine';
+import { LevelConfig, Move } from '@shared/game/gameLogic';
+import { createSeed } from '@shared/game/random';
+import { DEFAULT_STRATEGIES, SolverStrategyType } from '@shared/game/solver';
+import { Solver, createSolver } from '@/lib/solver';
+import { cn } from '@/lib/utils';
+
+// An open-ended board: no clock and a target nobody reaches
+const DEMO_CONFIG: LevelConfig = {
+  level: 1,
+  rows: 8,
+  cols: 8,
+  targetScore: Number.MAX_SAFE_INTEGER,
+  initialLives: 3,
+  hints: 0,
+  hintDelay: 0,
+};
+
+// How long the chosen swap is shown before it's made
+const SHOW_MOVE_MS = 450;
+
+const STRATEGY_LABELS: Record<SolverStrategyType, string> = {
+  greedy: 'Greedy',
+  lookahead: 'Lookahead',
+  monteCarlo: 'Monte Carlo',
+};
+
+const newGame = () => createGameState(DEMO_CONFIG, createSeed());
+
+export default function AutoPlayDemo() {
+  const [playing, setPlaying] = useState(false);
+  const [strategy, setStrategy] = useState<SolverStrategyType>('lookahead');
+  const [gameState, setGameState] = useState(newGame);
+  const [nextMove, setNextMove] = useState<Move | null>(null);
+  const solverRef = useRef<Solver | null>(null);
+
+  // The worker is only started once the demo is, and stopped on leaving the page
+  useEffect(() => () => solverRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    // Mid-move: let the phase play out as it would in a real game
+    const duration = getPhaseDuration(gameState);
+    if (duration !== undefined) {
+      const timer = setTimeout(() => setGameState(state => reduceGame(state, { type: 'advance' }).state), duration);
+      return () => clearTimeout(timer);
+    }
+    if (gameState.phase !== 'idle' && !isFinished(gameState)) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (isFinished(gameState)) {
+      timer = setTimeout(() => setGameState(newGame()), 1500);
+    } else {
+      solverRef.current ??= createSolver();
+      solverRef.current
+        .chooseMove(gameState, DEFAULT_STRATEGIES[strategy])
+        .then(choice => {
+          if (cancelled) return;
+          if (!choice) {
+            setGameState(newGame());
+            return;
+          }
+          // Point out the swap, then make it
+          setNextMove(choice.move);
+          timer = setTimeout(() => {
+            setNextMove(null);
+            setGameState(state => reduceGame(state, { type: 'swap', ...choice.move }).state);
+          }, SHOW_MOVE_MS);
+        })
+        .catch(() => {
+          if (!cancelled) setPlaying(false);
+        });
+    }
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [playing, gameState, strategy]);
+
+  const board = gameState.board.map(line => line.map(piece => piece?.type ?? null));
+
+  return (
+    <div className="bg-white/90 rounded-2xl sm:rounded-3xl p-3 sm:p-4 shadow-xl border-2 sm:border-4 border-primary space-y-3">
+      <div className="flex items-center gap-2">
+        <Bot className="w-5 h-5 text-primary" />
+        <h2 className="font-poppins font-bold text-primary mr-auto">Auto Play</h2>
+        <span className="font-fredoka font-bold text-primary tabular-nums">{gameState.score.toLocaleString()}</span>
+        <Button
+          onClick={() => setPlaying(value => !value)}
+          size="icon"
+          variant="outline"
+          className="rounded-full border-2 border-primary"
+          aria-label={playing ? 'Pause auto play' : 'Start auto play'}
+        >
+          {playing ? <Pause className="w-4 h-4 text-primary" /> : <Play className="w-4 h-4 text-primary" />}
+        </Button>
+      </div>
+      <div className="flex justify-center">
+        <MiniBoard
+          board={board}
+          highlight={playing && nextMove ? [nextMove.from, nextMove.to] : []}
+          dotClassName="w-4 h-4 sm:w-5 sm:h-5"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {(Object.keys(STRATEGY_LABELS) as SolverStrategyType[]).map(type => (
+          <Button
+            key={type}
+            onClick={() => setStrategy(type)}
+            variant="outline"
+            size="sm"
+            className={cn(
+              'font-fredoka font-bold text-xs rounded-full',
+              type === strategy ? 'bg-primary text-white border-primary hover:bg-primary/90 hover:text-white' : 'text-primary'
+            )}
+          >
+            {STRATEGY_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Boosters Bar Component
+ * Design Philosophy: Candy Pop Maximalism
+ * - One candy button per booster with how many are left
+ * - Shuffle and extra time work at once; the hammer and color swap light up
+ *   and wait for the player to pick their pieces on the board
+ */
+
+import { ArrowLeftRight, Hammer, LucideIcon, Shuffle, TimerReset } from 'lucide-react';
+import { BOOSTER_TYPES, BoosterType } from '@shared/game/gameEngine';
+import { BOOSTER_LABELS, BoosterInventory } from '@/lib/boosters';
+import { cn } from '@/lib/utils';
+
+const BOOSTER_STYLES: Record<BoosterType, { icon: LucideIcon; gradient: string }> = {
+  hammer: { icon: Hammer, gradient: 'from-orange-400 to-red-500' },
+  shuffle: { icon: Shuffle, gradient: 'from-pink-400 to-purple-500' },
+  extraTime: { icon: TimerReset, gradient: 'from-cyan-400 to-blue-500' },
+  colorSwap: { icon: ArrowLeftRight, gradient: 'from-green-400 to-emerald-500' },
+};
+
+interface BoostersBarProps {
+  inventory: BoosterInventory;
+  active: BoosterType | null; // Waiting for the player to pick pieces
+  canUse: (booster: BoosterType) => boolean;
+  onSelect: (booster: BoosterType) => void;
+}
+
+export default function BoostersBar({ inventory, active, canUse, onSelect }: BoostersBarProps) {
+  return (
+    <div className="flex justify-center gap-1.5 sm:gap-3">
+      {BOOSTER_TYPES.map(booster => {
+        const { icon: Icon, gradient } = BOOSTER_STYLES[booster];
+        const count = inventory.counts[booster];
+        const isActive = active === booster;
+        // An active booster stays clickable so it can be put away again
+        const disabled = !isActive && (count <= 0 || !canUse(booster));
+        return (
+          <button
+            key={booster}
+            type="button"
+            onClick={() => onSelect(booster)}
+            disabled={disabled}
+            aria-pressed={isActive}
+            title={BOOSTER_LABELS[booster]}
+            className={cn(
+              'relative flex flex-col items-center justify-center w-12 h-12 sm:w-16 sm:h-16 rounded-xl sm:rounded-2xl bg-gradient-to-br text-white shadow-md border-2 border-white/70 transition-all active:scale-95',
+              gradient,
+              isActive && 'ring-4 ring-yellow-300 scale-110',
+              disabled && 'opacity-40 grayscale cursor-not-allowed'
+            )}
+          >
+            <Icon className="w-5 h-5 sm:w-6 sm:h-6" />
+            <span className="font-fredoka font-bold text-[9px] sm:text-xs leading-tight">{BOOSTER_LABELS[booster]}</span>
+            <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-white text-primary font-fredoka font-bold text-xs leading-5 shadow">
+              {count}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -7,19 +7,27 @@
  * - Touch-optimized interactions with swipe support
  */
 
-import { GamePiece as GamePieceType } from '@/lib/gameLogic';
+import { Board, CascadeEvent } from '@shared/game/gameLogic';
+import { GamePhase, GameState } from '@shared/game/gameEngine';
 import GamePiece from './GamePiece';
 import { motion } from 'framer-motion';
-import { forwardRef, useImperativeHandle, useRef, useCallback, useState } from 'react';
+import { forwardRef, useImperativeHandle, useRef, useCallback, useMemo, useState } from 'react';
 
 interface GameBoardProps {
-  board: GamePieceType[][];
+  board: Board;
+  jelly?: number[][]; // Jelly layers under each cell, drawn beneath the pieces
   selectedPiece: { row: number; col: number } | null;
   matchedPieces: Set<string>;
   invalidSwapPieces?: Set<string>;
+  hintPieces?: Set<string>;
+  dimmedPieces?: Set<string>; // Drawn faded, e.g. cells the level editor leaves random
   onPieceClick: (row: number, col: number) => void;
   onSwap?: (from: { row: number; col: number }, to: { row: number; col: number }) => void;
   isAnimating: boolean;
+  isShuffling?: boolean;
+  cascade?: CascadeEvent[];
+  cascadeStep?: number;
+  reservedHeight?: number; // Screen height (px) kept free for the UI around the board
 }
 
 export interface GameBoardRef {
@@ -30,16 +38,66 @@ export interface GameBoardRef {
 // Minimum swipe distance to trigger a swap (in pixels)
 const MIN_SWIPE_DISTANCE = 20;
 
+// Jelly cell styling by layers left (none, one, two)
+const JELLY_CLASSES = [
+  '',
+  'bg-pink-300/50 border border-pink-200/70',
+  'bg-pink-400/70 border-2 border-pink-200',
+];
+
+// Falling pieces speed up like gravity; longer drops take longer
+const FALL_BASE_MS = 120;
+const FALL_MS_PER_ROW = 70;
+
+export function getFallDuration(rows: number): number {
+  return FALL_BASE_MS + rows * FALL_MS_PER_ROW;
+}
+
+// How long the drops in a cascade timeline take to land
+export function getCascadeDuration(cascade: CascadeEvent[]): number {
+  return cascade.reduce((longest, event) => {
+    if (event.type === 'moved') return Math.max(longest, getFallDuration(event.to.row - event.from.row));
+    if (event.type === 'spawned') return Math.max(longest, getFallDuration(event.dropDistance));
+    return longest;
+  }, 0);
+}
+
+// How long each animating phase plays before the engine advances (ms)
+// Cascading lasts at least as long as the longest drop in its timeline
+const PHASE_DURATIONS: Partial<Record<GamePhase, number>> = {
+  swapping: 350,
+  reverting: 500,
+  resolving: 350,
+  cascading: 200,
+  shuffling: 1600,
+};
+
+export function getPhaseDuration(state: GameState): number | undefined {
+  const duration = PHASE_DURATIONS[state.phase];
+  if (state.phase === 'cascading' && duration !== undefined) {
+    return Math.max(duration, getCascadeDuration(state.cascade) + 50);
+  }
+  return duration;
+}
+
 const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
   board,
+  jelly,
   selectedPiece,
   matchedPieces,
   invalidSwapPieces = new Set(),
+  hintPieces = new Set(),
+  dimmedPieces = new Set(),
   onPieceClick,
   onSwap,
   isAnimating,
+  isShuffling = false,
+  cascade = [],
+  cascadeStep = 0,
+  reservedHeight = 120,
 }, ref) {
-  const gridSize = board.length;
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
   const boardRef = useRef<HTMLDivElement>(null);
   const gridRef = useRef<HTMLDivElement>(null);
   
@@ -52,19 +110,37 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
   } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Rows each piece fell in the latest cascade (moved survivors and new arrivals)
+  const fallDistances = useMemo(() => {
+    const distances = new Map<string, number>();
+    cascade.forEach(event => {
+      if (event.type === 'moved') distances.set(event.id, event.to.row - event.from.row);
+      if (event.type === 'spawned') distances.set(event.id, event.dropDistance);
+    });
+    return distances;
+  }, [cascade]);
+
+  // Distance between the tops of two rows, including the gap
+  const getRowPitch = () => {
+    const cells = gridRef.current?.children;
+    if (!cells || cells.length <= cols) return 0;
+    return (cells[cols] as HTMLElement).offsetTop - (cells[0] as HTMLElement).offsetTop;
+  };
+  const rowPitch = getRowPitch();
+
   // Calculate the position of a piece in screen coordinates
   const getPiecePosition = useCallback((row: number, col: number): { x: number; y: number } | null => {
     if (!gridRef.current) return null;
     
     const gridRect = gridRef.current.getBoundingClientRect();
-    const cellWidth = gridRect.width / gridSize;
-    const cellHeight = gridRect.height / gridSize;
+    const cellWidth = gridRect.width / cols;
+    const cellHeight = gridRect.height / rows;
     
     return {
       x: gridRect.left + (col + 0.5) * cellWidth,
       y: gridRect.top + (row + 0.5) * cellHeight,
     };
-  }, [gridSize]);
+  }, [rows, cols]);
 
   const getBoardRect = useCallback((): DOMRect | null => {
     return boardRef.current?.getBoundingClientRect() || null;
@@ -76,7 +152,13 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
     getBoardRect,
   }), [getPiecePosition, getBoardRect]);
 
+  const gridTemplate = {
+    gridTemplateColumns: `repeat(${cols}, 1fr)`,
+    gridTemplateRows: `repeat(${rows}, 1fr)`,
+  };
+
   // Calculate responsive gap based on grid size
+  const gridSize = Math.max(rows, cols);
   const getGapClass = () => {
     if (gridSize >= 9) return 'gap-0.5 sm:gap-1';
     if (gridSize >= 8) return 'gap-1 sm:gap-1.5';
@@ -88,17 +170,17 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
     if (!gridRef.current) return null;
     
     const gridRect = gridRef.current.getBoundingClientRect();
-    const cellWidth = gridRect.width / gridSize;
-    const cellHeight = gridRect.height / gridSize;
+    const cellWidth = gridRect.width / cols;
+    const cellHeight = gridRect.height / rows;
     
     const col = Math.floor((clientX - gridRect.left) / cellWidth);
     const row = Math.floor((clientY - gridRect.top) / cellHeight);
     
-    if (row >= 0 && row < gridSize && col >= 0 && col < gridSize) {
+    if (row >= 0 && row < rows && col >= 0 && col < cols) {
       return { row, col };
     }
     return null;
-  }, [gridSize]);
+  }, [rows, cols]);
 
   // Handle drag/swipe start
   const handleDragStart = useCallback((row: number, col: number, clientX: number, clientY: number) => {
@@ -135,7 +217,7 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
       }
 
       // Check bounds
-      if (targetRow >= 0 && targetRow < gridSize && targetCol >= 0 && targetCol < gridSize) {
+      if (targetRow >= 0 && targetRow < rows && targetCol >= 0 && targetCol < cols) {
         onSwap(
           { row: dragStart.row, col: dragStart.col },
           { row: targetRow, col: targetCol }
@@ -145,7 +227,7 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
 
     setDragStart(null);
     setIsDragging(false);
-  }, [dragStart, onSwap, isAnimating, gridSize]);
+  }, [dragStart, onSwap, isAnimating, rows, cols]);
 
   // Touch event handlers
   const handleTouchStart = useCallback((e: React.TouchEvent, row: number, col: number) => {
@@ -182,7 +264,12 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
   return (
     <div
       ref={boardRef}
-      className="w-[min(95vw,calc(100dvh-120px))] max-w-[500px] sm:max-w-lg md:max-w-xl lg:max-w-2xl mx-auto aspect-square"
+      className="max-w-[500px] sm:max-w-lg md:max-w-xl lg:max-w-2xl mx-auto"
+      // Keep cells square whatever the board's shape
+      style={{
+        width: `min(95vw, calc((100dvh - ${reservedHeight}px) * ${cols / rows}))`,
+        aspectRatio: `${cols} / ${rows}`,
+      }}
     >
       {/* Rainbow candy border - simplified for performance */}
       <div
@@ -212,43 +299,83 @@ const GameBoard = forwardRef<GameBoardRef, GameBoardProps>(function GameBoard({
           <div className="absolute inset-0 bg-black/20 rounded-lg sm:rounded-xl" />
 
           {/* Grid container */}
-          <div className="relative w-full h-full">
+          <div className="relative w-full h-full bg-black/30 rounded-md sm:rounded-lg md:rounded-xl">
+            {/* Jelly layer - fixed to cells, so it sits in its own grid under the pieces */}
+            {jelly && (
+              <div
+                className={`absolute inset-0 grid ${getGapClass()} p-0.5 sm:p-1 md:p-2 pointer-events-none`}
+                style={gridTemplate}
+              >
+                {jelly.map((line, rowIndex) =>
+                  line.map((layers, colIndex) => (
+                    <div
+                      key={`jelly-${rowIndex}-${colIndex}`}
+                      className={`rounded-md sm:rounded-lg transition-colors duration-300 ${JELLY_CLASSES[Math.min(layers, JELLY_CLASSES.length - 1)]}`}
+                    />
+                  ))
+                )}
+              </div>
+            )}
+
             <div
               ref={gridRef}
-              className={`w-full h-full grid ${getGapClass()} p-0.5 sm:p-1 md:p-2 bg-black/30 rounded-md sm:rounded-lg md:rounded-xl`}
-              style={{
-                gridTemplateColumns: `repeat(${gridSize}, 1fr)`,
-                gridTemplateRows: `repeat(${gridSize}, 1fr)`,
-              }}
+              className={`relative w-full h-full grid ${getGapClass()} p-0.5 sm:p-1 md:p-2`}
+              style={gridTemplate}
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseLeave}
             >
               {board.map((row, rowIndex) =>
-                row.map((piece, colIndex) => (
-                  <div
-                    key={piece.id}
-                    className={`relative aspect-square cursor-grab active:cursor-grabbing transition-transform duration-100 ${
-                      dragStart?.row === rowIndex && dragStart?.col === colIndex && isDragging 
-                        ? 'scale-110 z-10' 
-                        : ''
-                    }`}
-                    onTouchStart={(e) => handleTouchStart(e, rowIndex, colIndex)}
-                    onTouchEnd={handleTouchEnd}
-                    onMouseDown={(e) => handleMouseDown(e, rowIndex, colIndex)}
-                  >
-                    <GamePiece
-                      piece={piece}
-                      isSelected={
-                        selectedPiece?.row === rowIndex && selectedPiece?.col === colIndex
-                      }
-                      isMatched={matchedPieces.has(piece.id)}
-                      isInvalidSwap={invalidSwapPieces.has(piece.id)}
-                      onClick={() => !isDragging && onPieceClick(rowIndex, colIndex)}
-                      isAnimating={isAnimating}
-                      isDragging={dragStart?.row === rowIndex && dragStart?.col === colIndex && isDragging}
-                    />
-                  </div>
-                ))
+                row.map((piece, colIndex) => {
+                  // Holes keep their grid slot but show nothing (clicks still
+                  // go through so the level editor can fill them back in)
+                  if (!piece) {
+                    return (
+                      <div
+                        key={`hole-${rowIndex}-${colIndex}`}
+                        className="aspect-square rounded-md bg-black/40"
+                        onClick={() => onPieceClick(rowIndex, colIndex)}
+                      />
+                    );
+                  }
+
+                  const fall = fallDistances.get(piece.id);
+                  return (
+                    <motion.div
+                      // Remount pieces that fell so they replay the drop from where they started
+                      key={fall ? `${piece.id}-${cascadeStep}` : piece.id}
+                      initial={fall ? { y: -fall * rowPitch } : false}
+                      animate={{ y: 0 }}
+                      // Pieces glide to their new cells while the board reshuffles
+                      layout={isShuffling}
+                      transition={{
+                        y: { duration: getFallDuration(fall ?? 0) / 1000, ease: 'easeIn' },
+                        layout: { type: 'spring', stiffness: 200, damping: 22 },
+                      }}
+                      className={`relative aspect-square cursor-grab active:cursor-grabbing transition-transform duration-100 ${
+                        dragStart?.row === rowIndex && dragStart?.col === colIndex && isDragging 
+                          ? 'scale-110 z-10' 
+                          : ''
+                      } ${dimmedPieces.has(piece.id) ? 'opacity-40' : ''}`}
+                      onTouchStart={(e) => handleTouchStart(e, rowIndex, colIndex)}
+                      onTouchEnd={handleTouchEnd}
+                      onMouseDown={(e) => handleMouseDown(e, rowIndex, colIndex)}
+                    >
+                      <GamePiece
+                        piece={piece}
+                        isSelected={
+                          selectedPiece?.row === rowIndex && selectedPiece?.col === colIndex
+                        }
+                        // Blocked pieces only lose their blocker, so they don't pop
+                        isMatched={matchedPieces.has(piece.id) && !piece.blocker}
+                        isInvalidSwap={invalidSwapPieces.has(piece.id)}
+                        isHinted={hintPieces.has(piece.id)}
+                        onClick={() => !isDragging && onPieceClick(rowIndex, colIndex)}
+                        isAnimating={isAnimating}
+                        isDragging={dragStart?.row === rowIndex && dragStart?.col === colIndex && isDragging}
+                      />
+                    </motion.div>
+                  );
+                })
               )}
             </div>
           </div>
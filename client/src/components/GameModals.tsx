@@ -8,13 +8,22 @@
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { RotateCcw, ChevronRight, Star, Sparkles } from 'lucide-react';
+import { RotateCcw, ChevronRight, Star, Sparkles, CircleCheck, CircleX, Trophy } from 'lucide-react';
+import ObjectiveIcon, { describeObjective } from '@/components/ObjectiveIcon';
+import { LevelObjective, ObjectiveProgress, isObjectiveComplete } from '@shared/game/gameLogic';
 
 interface LevelCompleteModalProps {
   isOpen: boolean;
   level: number;
+  title?: string; // Replaces "Level N Complete!"
+  nextLabel?: string; // Replaces "Next Level"
   score: number;
   targetScore: number;
+  stars: number; // 1-3 earned this run
+  isNewBest?: boolean; // Beat the saved best stars or score for this level
+  rank?: number | null; // Place on the level's leaderboard, once the score has been submitted
+  objectives?: LevelObjective[];
+  objectiveProgress?: ObjectiveProgress;
   onNextLevel: () => void;
   onRetry: () => void;
 }
@@ -22,8 +31,15 @@ interface LevelCompleteModalProps {
 export function LevelCompleteModal({
   isOpen,
   level,
+  title,
+  nextLabel = 'Next Level',
   score,
   targetScore,
+  stars,
+  isNewBest = false,
+  rank = null,
+  objectives = [],
+  objectiveProgress,
   onNextLevel,
   onRetry,
 }: LevelCompleteModalProps) {
@@ -99,29 +115,33 @@ export function LevelCompleteModal({
                     animate={{ scale: 1 }}
                     transition={{ delay: 0.2, type: 'spring' }}
                   >
-                    {[...Array(3)].map((_, i) => (
-                      <motion.div
-                        key={i}
-                        animate={{
-                          y: [0, -5, 0],
-                          rotate: [-5, 5, -5],
-                        }}
-                        transition={{
-                          duration: 1.5,
-                          repeat: Infinity,
-                          delay: i * 0.2,
-                        }}
-                      >
-                        <Star className="w-8 h-8 text-yellow-300 fill-yellow-300 drop-shadow-lg" />
-                      </motion.div>
-                    ))}
+                    {[...Array(3)].map((_, i) =>
+                      i < stars ? (
+                        <motion.div
+                          key={i}
+                          animate={{
+                            y: [0, -5, 0],
+                            rotate: [-5, 5, -5],
+                          }}
+                          transition={{
+                            duration: 1.5,
+                            repeat: Infinity,
+                            delay: i * 0.2,
+                          }}
+                        >
+                          <Star className="w-8 h-8 text-yellow-300 fill-yellow-300 drop-shadow-lg" />
+                        </motion.div>
+                      ) : (
+                        <Star key={i} className="w-8 h-8 text-white/40" />
+                      )
+                    )}
                   </motion.div>
 
                   <h2 
                     className="text-3xl font-bold text-white drop-shadow-lg"
                     style={{ fontFamily: "'Fredoka One', cursive" }}
                   >
-                    Level {level} Complete!
+                    {title ?? `Level ${level} Complete!`}
                   </h2>
                 </div>
 
@@ -147,6 +167,45 @@ export function LevelCompleteModal({
                     </p>
                   </div>
 
+                  {/* Which of the level's objectives were met */}
+                  {objectiveProgress && objectives.length > 0 && (
+                    <ul className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                      {objectives.map((objective, index) => {
+                        const isMet = isObjectiveComplete(objective, objectiveProgress);
+                        return (
+                          <motion.li
+                            key={index}
+                            className="flex items-center gap-2 text-sm font-semibold text-gray-700"
+                            initial={{ opacity: 0, x: -10 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            transition={{ delay: 0.4 + index * 0.1 }}
+                          >
+                            <ObjectiveIcon objective={objective} />
+                            <span className="flex-1">{describeObjective(objective)}</span>
+                            {isMet ? (
+                              <CircleCheck className="w-5 h-5 text-green-500" />
+                            ) : (
+                              <CircleX className="w-5 h-5 text-gray-400" />
+                            )}
+                          </motion.li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  {isNewBest && (
+                    <p className="text-center text-xs font-bold uppercase tracking-wider text-emerald-600 mt-2">
+                      New best!
+                    </p>
+                  )}
+
+                  {rank !== null && (
+                    <p className="flex items-center justify-center gap-1 text-sm font-semibold text-purple-600 mt-2">
+                      <Trophy className="w-4 h-4 text-amber-500" />
+                      #{rank.toLocaleString()} on the leaderboard
+                    </p>
+                  )}
+
                   {score >= targetScore && (
                     <motion.div
                       className="flex items-center justify-center gap-2 mt-3 text-amber-500 font-semibold"
@@ -171,7 +230,7 @@ export function LevelCompleteModal({
                       onClick={onNextLevel}
                       className="w-full bg-gradient-to-r from-emerald-400 to-green-500 hover:from-emerald-500 hover:to-green-600 text-white font-bold text-lg py-6 rounded-2xl shadow-lg border-2 border-white/30 flex items-center justify-center gap-2"
                     >
-                      <span>Next Level</span>
+                      <span>{nextLabel}</span>
                       <ChevronRight className="w-6 h-6" />
                     </Button>
                   </motion.div>
@@ -3,7 +3,7 @@
  * Simplified animations for smooth mobile experience
  */
 
-import { GamePiece as GamePieceType, PieceType } from '@/lib/gameLogic';
+import { GamePiece as GamePieceType, PieceType } from '@shared/game/gameLogic';
 import { memo } from 'react';
 
 interface GamePieceProps {
@@ -12,12 +12,13 @@ interface GamePieceProps {
   isMatched: boolean;
   isInvalidSwap?: boolean;
   isDragging?: boolean;
+  isHinted?: boolean;
   onClick: () => void;
   isAnimating: boolean;
 }
 
 // Gumball color palette - rich, saturated candy colors
-const PIECE_COLORS: Record<PieceType, { 
+export const PIECE_COLORS: Record<PieceType, { 
   base: string;
   light: string;
   dark: string;
@@ -68,15 +69,47 @@ const PIECE_COLORS: Record<PieceType, {
   },
 };
 
+// Ingredients are toasted hazelnuts, nothing like any gumball
+const INGREDIENT_COLORS = {
+  base: '#A0642C',
+  light: '#D4A06A',
+  dark: '#5A3412',
+  glow: '#fbbf24',
+  shadow: 'rgba(90, 52, 18, 0.5)',
+};
+
+// Color bombs are dark chocolate gumballs covered in sprinkles
+const COLOR_BOMB_COLORS = {
+  base: '#5D4037',
+  light: '#8D6E63',
+  dark: '#2E1A12',
+  glow: '#f5d0fe',
+  shadow: 'rgba(46, 26, 18, 0.5)',
+};
+
+const SPRINKLES = [
+  { top: '22%', left: '55%', color: '#FF6F60', rotate: 30 },
+  { top: '40%', left: '25%', color: '#FFFF6B', rotate: -20 },
+  { top: '58%', left: '60%', color: '#6AB7FF', rotate: 75 },
+  { top: '68%', left: '35%', color: '#FF77A9', rotate: 10 },
+  { top: '38%', left: '68%', color: '#C158DC', rotate: -60 },
+  { top: '52%', left: '44%', color: '#FFBD45', rotate: 45 },
+];
+
 const GamePiece = memo(function GamePiece({
   piece,
   isSelected,
   isMatched,
   isInvalidSwap = false,
   isDragging = false,
+  isHinted = false,
   onClick,
 }: GamePieceProps) {
-  const colors = PIECE_COLORS[piece.type];
+  const colors = piece.ingredient
+    ? INGREDIENT_COLORS
+    : piece.special === 'colorBomb'
+      ? COLOR_BOMB_COLORS
+      : PIECE_COLORS[piece.type];
 
   // Build class names based on state
   const getContainerClasses = () => {
@@ -87,6 +120,7 @@ const GamePiece = memo(function GamePiece({
     if (isDragging) return `${base} ${transitions} scale-110 -translate-y-1 brightness-110`;
     if (isInvalidSwap) return `${base} animate-shake`;
     if (isSelected) return `${base} ${transitions} scale-110 -translate-y-1`;
+    if (isHinted) return `${base} animate-hint-pulse`;
     
     return `${base} ${transitions} hover:scale-105 active:scale-95`;
   };
@@ -163,6 +197,56 @@ const GamePiece = memo(function GamePiece({
           }}
         />
 
+        {/* Striped candy - white stripes across the clear direction */}
+        {(piece.special === 'stripedHorizontal' || piece.special === 'stripedVertical') && (
+          <div
+            className="absolute inset-0 rounded-full pointer-events-none"
+            style={{
+              background: `repeating-linear-gradient(
+                ${piece.special === 'stripedHorizontal' ? '0deg' : '90deg'},
+                rgba(255, 255, 255, 0.75) 0 12%,
+                transparent 12% 24%
+              )`,
+            }}
+          />
+        )}
+
+        {/* Wrapped candy - glossy wrapper band */}
+        {piece.special === 'wrapped' && (
+          <div
+            className="absolute inset-[12%] rounded-full pointer-events-none border-[3px] sm:border-4 border-white/80 border-dashed"
+            style={{ boxShadow: `0 0 8px ${colors.glow}` }}
+          />
+        )}
+
+        {/* Color bomb - rainbow sprinkles */}
+        {piece.special === 'colorBomb' &&
+          SPRINKLES.map((sprinkle, i) => (
+            <div
+              key={i}
+              className="absolute rounded-full pointer-events-none"
+              style={{
+                top: sprinkle.top,
+                left: sprinkle.left,
+                width: '16%',
+                height: '6%',
+                background: sprinkle.color,
+                transform: `rotate(${sprinkle.rotate}deg)`,
+              }}
+            />
+          ))}
+
+        {/* Hazelnut cap */}
+        {piece.ingredient && (
+          <div
+            className="absolute left-[8%] right-[8%] top-0 h-[34%] rounded-t-full pointer-events-none"
+            style={{
+              background: 'repeating-linear-gradient(90deg, #4E2C10 0 8%, #6D4322 8% 16%)',
+              boxShadow: '0 2px 3px rgba(0, 0, 0, 0.35)',
+            }}
+          />
+        )}
+
         {/* Match flash overlay */}
         {isMatched && (
           <div
@@ -182,6 +266,45 @@ const GamePiece = memo(function GamePiece({
         )}
       </div>
 
+      {/* Licorice lock - two crossed straps */}
+      {piece.blocker?.type === 'lock' &&
+        [45, -45].map(angle => (
+          <div
+            key={angle}
+            className="absolute left-[-6%] right-[-6%] top-[42%] h-[16%] rounded-full pointer-events-none border border-black/30"
+            style={{
+              background: 'linear-gradient(180deg, #5D4037 0%, #2E1A12 100%)',
+              transform: `rotate(${angle}deg)`,
+              boxShadow: '0 1px 3px rgba(0, 0, 0, 0.4)',
+            }}
+          />
+        ))}
+
+      {/* Ice block - frostier the more hits it has left */}
+      {piece.blocker?.type === 'ice' && (
+        <div
+          className="absolute inset-[-6%] rounded-lg pointer-events-none border-2 border-white/80 flex items-end justify-end p-[6%]"
+          style={{
+            background: `linear-gradient(135deg, rgba(224, 242, 254, ${0.45 + piece.blocker.hits * 0.15}) 0%, rgba(125, 211, 252, ${0.35 + piece.blocker.hits * 0.15}) 100%)`,
+            boxShadow: 'inset 0 0 8px rgba(255, 255, 255, 0.8)',
+          }}
+        >
+          {piece.blocker.hits > 1 && (
+            <span className="font-fredoka font-bold text-[10px] sm:text-xs leading-none text-sky-700">
+              {piece.blocker.hits}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Hint glow ring */}
+      {isHinted && (
+        <div
+          className="absolute inset-[-8%] rounded-full border-2 sm:border-4 border-white pointer-events-none"
+          style={{ boxShadow: `0 0 12px ${colors.glow}, 0 0 4px white` }}
+        />
+      )}
+
       {/* Selection pulse ring */}
       {isSelected && (
         <div
@@ -6,15 +6,24 @@
  * - Responsive design for mobile and desktop
  */
 
-import { Heart, Clock, Zap } from 'lucide-react';
+import { Heart, Clock, Zap, Lightbulb, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ObjectiveIcon, { describeObjective } from '@/components/ObjectiveIcon';
+import { LevelObjective, ObjectiveProgress, getObjectiveRemaining } from '@shared/game/gameLogic';
 
 interface GameUIProps {
   score: number;
   targetScore: number;
   lives: number;
-  timeRemaining: number;
+  timeRemaining: number | null; // null on untimed levels
   level: number;
+  title?: string; // Shown instead of "Level N" (e.g. for the daily challenge)
   moves?: number;
+  movesRemaining?: number | null; // null/undefined when moves are unlimited
+  hintsRemaining?: number;
+  objectives?: LevelObjective[];
+  objectiveProgress?: ObjectiveProgress;
+  onHint?: () => void;
 }
 
 export default function GameUI({
@@ -23,9 +32,20 @@ export default function GameUI({
   lives,
   timeRemaining,
   level,
+  title,
   moves,
+  movesRemaining,
+  hintsRemaining,
+  objectives = [],
+  objectiveProgress,
+  onHint,
 }: GameUIProps) {
-  const isTimeRunningOut = timeRemaining < 30;
+  const isTimed = timeRemaining !== null;
+  const isTimeRunningOut = isTimed && timeRemaining < 30;
+  const isMoveLimited = movesRemaining !== undefined && movesRemaining !== null;
+  const isMovesRunningOut = isMoveLimited && movesRemaining <= 5;
+  const showMoves = isMoveLimited || moves !== undefined;
+  const statCount = 1 + (isTimed ? 1 : 0) + (showMoves ? 1 : 0);
   const scoreProgress = Math.min((score / targetScore) * 100, 100);
 
   return (
@@ -35,7 +55,7 @@ export default function GameUI({
         {/* Level indicator and score in one row on mobile */}
         <div className="flex items-center justify-between sm:block sm:text-center">
           <h1 className="text-lg sm:text-2xl md:text-3xl font-poppins font-bold text-transparent bg-clip-text bg-gradient-to-r from-pink-500 via-purple-500 to-cyan-500">
-            Level {level}
+            {title ?? `Level ${level}`}
           </h1>
           <span className="font-fredoka font-bold text-xs sm:hidden text-primary">
             {score.toLocaleString()} / {targetScore.toLocaleString()}
@@ -62,7 +82,7 @@ export default function GameUI({
       </div>
 
       {/* Stats grid - very compact on mobile */}
-      <div className="grid grid-cols-3 gap-0.5 sm:gap-1 md:gap-2">
+      <div className={`grid ${statCount === 3 ? 'grid-cols-3' : 'grid-cols-2'} gap-0.5 sm:gap-1 md:gap-2`}>
         {/* Lives */}
         <div className="bg-gradient-to-br from-red-400 to-red-500 rounded-md sm:rounded-xl p-1 sm:p-2 md:p-3 shadow-md border border-white/30">
           <div className="flex items-center justify-between">
@@ -74,36 +94,90 @@ export default function GameUI({
           </div>
         </div>
 
-        {/* Timer */}
-        <div
-          className={`rounded-md sm:rounded-xl p-1 sm:p-2 md:p-3 shadow-md border border-white/30 ${
-            isTimeRunningOut
-              ? 'bg-gradient-to-br from-orange-400 to-red-500'
-              : 'bg-gradient-to-br from-cyan-400 to-blue-500'
-          }`}
-        >
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-[7px] sm:text-[10px] font-fredoka font-semibold text-white/80 uppercase leading-none">Time</p>
-              <p className="text-base sm:text-xl md:text-2xl font-poppins font-bold text-white leading-tight">{timeRemaining}s</p>
+        {/* Timer (timed levels only) */}
+        {isTimed && (
+          <div
+            className={`rounded-md sm:rounded-xl p-1 sm:p-2 md:p-3 shadow-md border border-white/30 ${
+              isTimeRunningOut
+                ? 'bg-gradient-to-br from-orange-400 to-red-500'
+                : 'bg-gradient-to-br from-cyan-400 to-blue-500'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-[7px] sm:text-[10px] font-fredoka font-semibold text-white/80 uppercase leading-none">Time</p>
+                <p className="text-base sm:text-xl md:text-2xl font-poppins font-bold text-white leading-tight">{timeRemaining}s</p>
+              </div>
+              <Clock className="w-3.5 h-3.5 sm:w-5 sm:h-5 md:w-6 md:h-6 text-white/60" />
             </div>
-            <Clock className="w-3.5 h-3.5 sm:w-5 sm:h-5 md:w-6 md:h-6 text-white/60" />
           </div>
-        </div>
+        )}
 
-        {/* Moves (if applicable) */}
-        {moves !== undefined && (
-          <div className="bg-gradient-to-br from-purple-400 to-purple-500 rounded-md sm:rounded-xl p-1 sm:p-2 md:p-3 shadow-md border border-white/30">
+        {/* Moves - counts down on move-limited levels, up otherwise */}
+        {showMoves && (
+          <div
+            className={`rounded-md sm:rounded-xl p-1 sm:p-2 md:p-3 shadow-md border border-white/30 ${
+              isMovesRunningOut
+                ? 'bg-gradient-to-br from-orange-400 to-red-500'
+                : 'bg-gradient-to-br from-purple-400 to-purple-500'
+            }`}
+          >
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-[7px] sm:text-[10px] font-fredoka font-semibold text-white/80 uppercase leading-none">Moves</p>
-                <p className="text-base sm:text-xl md:text-2xl font-poppins font-bold text-white leading-tight">{moves}</p>
+                <p className="text-[7px] sm:text-[10px] font-fredoka font-semibold text-white/80 uppercase leading-none">
+                  {isMoveLimited ? 'Moves Left' : 'Moves'}
+                </p>
+                <p className="text-base sm:text-xl md:text-2xl font-poppins font-bold text-white leading-tight">
+                  {isMoveLimited ? movesRemaining : moves}
+                </p>
               </div>
               <Zap className="w-3.5 h-3.5 sm:w-5 sm:h-5 md:w-6 md:h-6 text-white/60" />
             </div>
           </div>
         )}
       </div>
+
+      {/* Objectives - what's left of each, ticked off when done */}
+      {objectiveProgress && objectives.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-0.5 sm:gap-1 md:gap-2 mt-0.5 sm:mt-1 md:mt-2">
+          {objectives.map((objective, index) => {
+            const remaining = getObjectiveRemaining(objective, objectiveProgress);
+            return (
+              <div
+                key={index}
+                title={describeObjective(objective)}
+                className={`flex items-center gap-1 rounded-full px-2 py-0.5 sm:py-1 shadow-md border ${
+                  remaining === 0 ? 'bg-green-100 border-green-400' : 'bg-white/90 border-white'
+                }`}
+              >
+                <ObjectiveIcon objective={objective} className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                {remaining === 0 ? (
+                  <Check className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-green-600" />
+                ) : (
+                  <span className="font-fredoka font-bold text-xs sm:text-sm text-foreground">
+                    {remaining.toLocaleString()}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Hint button */}
+      {onHint && hintsRemaining !== undefined && (
+        <div className="flex justify-center mt-0.5 sm:mt-1 md:mt-2">
+          <Button
+            onClick={onHint}
+            disabled={hintsRemaining <= 0}
+            size="sm"
+            className="h-6 sm:h-8 px-3 sm:px-4 rounded-full bg-gradient-to-r from-yellow-400 to-amber-500 hover:from-yellow-500 hover:to-amber-600 text-white font-fredoka font-bold text-xs sm:text-sm shadow-md border border-white/50 active:scale-95"
+          >
+            <Lightbulb className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            Hint ({hintsRemaining})
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
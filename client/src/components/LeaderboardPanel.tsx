@@ -0,0 +1,188 @@
+/**
+ * Leaderboard Panel Component
+ * - One or more boards behind tabs, a page of scores at a time
+ * - The player's own row is highlighted, and their rank is shown underneath
+ *   when it isn't on the page being viewed
+ * - The player's display name can be changed in place
+ */
+
+import { FormEvent, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Pencil, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LeaderboardPage, MAX_NAME_LENGTH, RankResponse } from '@shared/leaderboard';
+import {
+  LeaderboardError,
+  fetchLeaderboard,
+  fetchPlayerRank,
+  loadPlayer,
+  setPlayerName,
+} from '@/lib/leaderboard';
+
+const PAGE_SIZE = 10;
+
+// Podium colors for the top three ranks
+const RANK_COLORS = ['text-amber-500', 'text-slate-400', 'text-orange-700'];
+
+export interface LeaderboardTab {
+  board: string;
+  label: string;
+}
+
+interface LeaderboardPanelProps {
+  tabs: LeaderboardTab[];
+  refreshKey?: unknown; // Changing it reloads the board (e.g. after submitting a score)
+}
+
+export default function LeaderboardPanel({ tabs, refreshKey }: LeaderboardPanelProps) {
+  const [board, setBoard] = useState(tabs[0].board);
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<LeaderboardPage | null>(null);
+  const [ownRank, setOwnRank] = useState<RankResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playerName, setPlayerNameState] = useState(() => loadPlayer().name);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    Promise.all([fetchLeaderboard(board, offset, PAGE_SIZE), fetchPlayerRank(board)])
+      .then(([nextPage, nextRank]) => {
+        if (cancelled) return;
+        setPage(nextPage);
+        setOwnRank(nextRank);
+      })
+      .catch((reason: unknown) => {
+        if (cancelled) return;
+        setPage(null);
+        setError(reason instanceof LeaderboardError ? reason.message : 'Leaderboards are unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [board, offset, refreshKey]);
+
+  const selectBoard = (next: string) => {
+    setBoard(next);
+    setOffset(0);
+    setPage(null);
+  };
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault();
+    const player = nameDraft === null ? null : setPlayerName(nameDraft);
+    if (player) setPlayerNameState(player.name);
+    setNameDraft(null);
+  };
+
+  const showOwnRank =
+    ownRank?.entry && page && !page.entries.some(entry => entry.isYou);
+
+  return (
+    <div className="bg-white/90 rounded-3xl p-4 shadow-xl border-2 border-primary space-y-3">
+      <div className="flex items-center gap-2">
+        <Trophy className="w-5 h-5 text-amber-500" />
+        <h2 className="font-poppins font-bold text-lg text-primary mr-auto">Leaderboard</h2>
+        {nameDraft === null ? (
+          <button
+            onClick={() => setNameDraft(playerName)}
+            title="Change your name (shown with your next score)"
+            className="flex items-center gap-1 font-fredoka text-sm text-foreground/70 hover:text-primary"
+          >
+            {playerName} <Pencil className="w-3 h-3" />
+          </button>
+        ) : (
+          <form onSubmit={handleRename} className="flex items-center gap-1">
+            <Input
+              autoFocus
+              value={nameDraft}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={e => setNameDraft(e.target.value)}
+              onBlur={handleRename}
+              className="h-7 w-32 text-sm font-fredoka"
+              aria-label="Display name"
+            />
+          </form>
+        )}
+      </div>
+
+      {tabs.length > 1 && (
+        <div className="flex gap-1 bg-purple-100 rounded-xl p-1">
+          {tabs.map(tab => (
+            <button
+              key={tab.board}
+              onClick={() => selectBoard(tab.board)}
+              className={`flex-1 rounded-lg py-1 font-fredoka font-semibold text-sm transition-colors ${
+                tab.board === board ? 'bg-white text-primary shadow' : 'text-foreground/60 hover:text-primary'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-center font-fredoka text-sm text-foreground/60 py-4">{error}</p>
+      ) : !page ? (
+        <p className="text-center font-fredoka text-sm text-foreground/60 py-4">Loading…</p>
+      ) : page.entries.length === 0 ? (
+        <p className="text-center font-fredoka text-sm text-foreground/60 py-4">
+          No scores yet - be the first!
+        </p>
+      ) : (
+        <ol className="space-y-1">
+          {page.entries.map(entry => (
+            <li
+              key={entry.rank}
+              className={`flex items-center gap-2 rounded-xl px-3 py-1.5 font-fredoka ${
+                entry.isYou ? 'bg-gradient-to-r from-pink-200 to-purple-200 font-bold' : 'bg-purple-50'
+              }`}
+            >
+              <span className={`w-8 font-bold tabular-nums ${RANK_COLORS[entry.rank - 1] ?? 'text-foreground/60'}`}>
+                #{entry.rank}
+              </span>
+              <span className="truncate mr-auto">{entry.name}</span>
+              <span className="tabular-nums">{entry.score.toLocaleString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {showOwnRank && (
+        <p className="text-center font-fredoka text-sm">
+          You're <strong>#{ownRank.rank}</strong> of {ownRank.total} with{' '}
+          <strong>{ownRank.entry!.score.toLocaleString()}</strong>
+        </p>
+      )}
+
+      {page && page.total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="icon"
+            className="rounded-full"
+            disabled={offset === 0}
+            onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="font-fredoka text-sm text-foreground/70">
+            {offset + 1}-{Math.min(offset + PAGE_SIZE, page.total)} of {page.total}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="rounded-full"
+            disabled={offset + PAGE_SIZE >= page.total}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Mini Board Component
+ * - A board in miniature, a colored dot per piece
+ * - For boards that are watched rather than played: an opponent's in versus
+ *   mode, or the auto-play demo
+ */
+
+import { PieceType, Position } from '@shared/game/gameLogic';
+import { cn } from '@/lib/utils';
+import { PIECE_COLORS } from './GamePiece';
+
+interface MiniBoardProps {
+  board: (PieceType | null)[][];
+  highlight?: Position[]; // Cells ringed, e.g. the swap about to be made
+  className?: string;
+  dotClassName?: string;
+}
+
+export default function MiniBoard({ board, highlight = [], className, dotClassName }: MiniBoardProps) {
+  return (
+    <div
+      className={cn('grid gap-0.5 bg-white/60 rounded-lg p-1', className)}
+      style={{ gridTemplateColumns: `repeat(${board[0]?.length ?? 0}, minmax(0, 1fr))` }}
+    >
+      {board.flatMap((line, row) =>
+        line.map((type, col) => (
+          <div
+            key={`${row}-${col}`}
+            className={cn(
+              'w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full transition-colors duration-200',
+              highlight.some(cell => cell.row === row && cell.col === col) && 'ring-2 ring-white scale-110',
+              dotClassName
+            )}
+            style={{ backgroundColor: type ? PIECE_COLORS[type].base : 'transparent' }}
+          />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Objective Icon Component
+ * - One small icon per kind of level objective, shared by the HUD and modals
+ * - Collect objectives show a mini gumball in the color to collect
+ */
+
+import { Droplet, Nut, Target } from 'lucide-react';
+import { LevelObjective } from '@shared/game/gameLogic';
+import { PIECE_COLORS } from '@/components/GamePiece';
+
+interface ObjectiveIconProps {
+  objective: LevelObjective;
+  className?: string;
+}
+
+// Short description of what an objective asks for
+export function describeObjective(objective: LevelObjective): string {
+  switch (objective.type) {
+    case 'score':
+      return `Score ${objective.target.toLocaleString()}`;
+    case 'clearJelly':
+      return 'Clear all jelly';
+    case 'collect':
+      return `Collect ${objective.count} ${objective.color}`;
+    case 'ingredients':
+      return `Bring down ${objective.count} ${objective.count === 1 ? 'ingredient' : 'ingredients'}`;
+  }
+}
+
+export default function ObjectiveIcon({ objective, className = 'w-4 h-4' }: ObjectiveIconProps) {
+  switch (objective.type) {
+    case 'score':
+      return <Target className={`${className} text-amber-500`} />;
+    case 'clearJelly':
+      return <Droplet className={`${className} text-fuchsia-500`} />;
+    case 'ingredients':
+      return <Nut className={`${className} text-amber-700`} />;
+    case 'collect': {
+      const colors = PIECE_COLORS[objective.color];
+      return (
+        <span
+          className={`${className} inline-block rounded-full flex-shrink-0`}
+          style={{
+            background: `radial-gradient(ellipse 50% 50% at 35% 30%, ${colors.light} 0%, ${colors.base} 40%, ${colors.dark} 100%)`,
+          }}
+        />
+      );
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Shuffle Overlay Component
+ * Design Philosophy: Candy Pop Maximalism
+ * - Explains why the board is rearranging itself
+ * - Bouncy candy banner over the board
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { Shuffle } from 'lucide-react';
+
+interface ShuffleOverlayProps {
+  isVisible: boolean;
+  message?: string;
+}
+
+export default function ShuffleOverlay({ isVisible, message = 'No moves — shuffling!' }: ShuffleOverlayProps) {
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          className="fixed inset-0 flex items-center justify-center z-40 pointer-events-none"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+        >
+          <motion.div
+            className="flex items-center gap-2 sm:gap-3 px-5 py-3 sm:px-8 sm:py-4 rounded-full bg-gradient-to-r from-pink-500 via-purple-500 to-cyan-500 border-2 sm:border-4 border-white shadow-2xl"
+            initial={{ scale: 0.5, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.5, opacity: 0 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 20 }}
+          >
+            <motion.div
+              animate={{ rotate: [0, 180, 360] }}
+              transition={{ duration: 1, repeat: Infinity, ease: 'easeInOut' }}
+            >
+              <Shuffle className="w-5 h-5 sm:w-7 sm:h-7 text-white" />
+            </motion.div>
+            <span
+              className="text-lg sm:text-2xl font-bold text-white drop-shadow-lg"
+              style={{ fontFamily: "'Fredoka One', cursive" }}
+            >
+              {message}
+            </span>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
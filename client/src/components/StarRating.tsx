@@ -0,0 +1,27 @@
+/**
+ * Star Rating Component
+ * - Three stars, filled for each one earned
+ * - Used wherever levels are listed
+ */
+
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  stars: number; // 0-3
+  className?: string; // Size of each star
+}
+
+export default function StarRating({ stars, className = 'w-4 h-4' }: StarRatingProps) {
+  return (
+    <div className="flex items-center justify-center gap-0.5" aria-label={`${stars} of 3 stars`}>
+      {[0, 1, 2].map(i => (
+        <Star
+          key={i}
+          className={`${className} ${
+            i < stars ? 'text-yellow-400 fill-yellow-400 drop-shadow' : 'text-gray-300 fill-gray-200'
+          }`}
+        />
+      ))}
+    </div>
+  );
+}
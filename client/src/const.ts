@@ -1,17 +1,11 @@
+import { OAUTH_CALLBACK_PATH, OAUTH_LOGIN_PATH } from "@shared/auth";
+
 export { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
 
 // Generate login URL at runtime so redirect URI reflects the current origin.
+// The server starts the sign-in and sends the browser on to the OAuth portal.
 export const getLoginUrl = () => {
-  const oauthPortalUrl = import.meta.env.VITE_OAUTH_PORTAL_URL;
-  const appId = import.meta.env.VITE_APP_ID;
-  const redirectUri = `${window.location.origin}/api/oauth/callback`;
-  const state = btoa(redirectUri);
-
-  const url = new URL(`${oauthPortalUrl}/app-auth`);
-  url.searchParams.set("appId", appId);
-  url.searchParams.set("redirectUri", redirectUri);
-  url.searchParams.set("state", state);
-  url.searchParams.set("type", "signIn");
-
+  const url = new URL(OAUTH_LOGIN_PATH, window.location.origin);
+  url.searchParams.set("redirectUri", `${window.location.origin}${OAUTH_CALLBACK_PATH}`);
   return url.toString();
 };
@@ -0,0 +1,47 @@
+/**
+ * Auth Hook
+ * - Who is signed in, read from the server's session (/api/me)
+ * - login() leaves for the OAuth portal, which returns through
+ *   /api/oauth/callback; logout() ends the session
+ * - Without a server (a static deploy, or the Vite dev server) everyone is
+ *   simply signed out
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { MeResponse, SessionUser } from '@shared/auth';
+import { getLoginUrl } from '@/const';
+
+export function useAuth() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/me', { credentials: 'same-origin' })
+      .then(async response => {
+        const isJson = response.headers.get('Content-Type')?.includes('application/json');
+        const body: MeResponse | null = response.ok && isJson ? await response.json() : null;
+        if (!cancelled) setUser(body?.user ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const login = useCallback(() => {
+    window.location.href = getLoginUrl();
+  }, []);
+
+  const logout = useCallback(async () => {
+    await fetch('/api/oauth/logout', { method: 'POST', credentials: 'same-origin' }).catch(() => {});
+    setUser(null);
+  }, []);
+
+  return { user, loading, isAuthenticated: user !== null, login, logout };
+}
@@ -0,0 +1,140 @@
+/**
+ * Versus Connection Hook
+ * - Holds the WebSocket to the versus server and the room it last described
+ * - Dropped connections reconnect on their own (backing off up to a few
+ *   seconds) and rejoin the room, whose code is kept for the tab's session so
+ *   a reload lands back in the match too
+ * - On rejoining a match the server sends back the player's own moves, handed
+ *   to onResync so the page can rebuild its board
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Move, Position } from '@shared/game/gameLogic';
+import {
+  VERSUS_SOCKET_PATH,
+  VersusClientMessage,
+  VersusMode,
+  VersusRoomView,
+  VersusServerMessage,
+} from '@shared/versus';
+import { loadPlayer } from '@/lib/leaderboard';
+
+export type VersusConnection = 'connecting' | 'open' | 'reconnecting';
+
+const ROOM_STORAGE_KEY = 'versusRoom';
+const MAX_RECONNECT_DELAY_MS = 8000;
+
+interface UseVersusOptions {
+  onResync: (room: VersusRoomView, moves: Move[]) => void;
+}
+
+export function useVersus({ onResync }: UseVersusOptions) {
+  const [room, setRoom] = useState<VersusRoomView | null>(null);
+  const [connection, setConnection] = useState<VersusConnection>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  // Server clock minus ours, for counting down to the server's times
+  const [clockOffset, setClockOffset] = useState(0);
+  const socketRef = useRef<WebSocket | null>(null);
+  const roomRef = useRef<VersusRoomView | null>(null);
+  const onResyncRef = useRef(onResync);
+  onResyncRef.current = onResync;
+
+  const send = useCallback((message: VersusClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }, []);
+
+  useEffect(() => {
+    let closed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (message: VersusServerMessage) => {
+      switch (message.type) {
+        case 'room':
+          roomRef.current = message.room;
+          sessionStorage.setItem(ROOM_STORAGE_KEY, message.room.code);
+          setRoom(message.room);
+          setClockOffset(message.room.serverNow - Date.now());
+          setError(null);
+          break;
+        case 'resync':
+          if (roomRef.current) onResyncRef.current(roomRef.current, message.moves);
+          break;
+        case 'error':
+          // A room that's gone (or full) can't be rejoined - forget it
+          if (!roomRef.current) sessionStorage.removeItem(ROOM_STORAGE_KEY);
+          setError(message.message);
+          break;
+        case 'left':
+          roomRef.current = null;
+          sessionStorage.removeItem(ROOM_STORAGE_KEY);
+          setRoom(null);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${VERSUS_SOCKET_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnection('open');
+        const code = roomRef.current?.code ?? sessionStorage.getItem(ROOM_STORAGE_KEY);
+        if (code) {
+          const { id, name } = loadPlayer();
+          send({ type: 'join', code, playerId: id, name });
+        }
+      };
+      socket.onmessage = event => {
+        try {
+          handleMessage(JSON.parse(event.data) as VersusServerMessage);
+        } catch {
+          // Ignore anything that isn't one of ours
+        }
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        setConnection('reconnecting');
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+    };
+  }, [send]);
+
+  const create = useCallback(
+    (mode: VersusMode) => {
+      const { id, name } = loadPlayer();
+      send({ type: 'create', mode, playerId: id, name });
+    },
+    [send]
+  );
+
+  const join = useCallback(
+    (code: string) => {
+      const { id, name } = loadPlayer();
+      send({ type: 'join', code, playerId: id, name });
+    },
+    [send]
+  );
+
+  const sendMove = useCallback((from: Position, to: Position) => send({ type: 'move', from, to }), [send]);
+
+  // Forgotten straight away, so leaving the page doesn't rejoin on the way back
+  const leave = useCallback(() => {
+    sessionStorage.removeItem(ROOM_STORAGE_KEY);
+    send({ type: 'leave' });
+  }, [send]);
+
+  return { room, connection, error, clockOffset, create, join, sendMove, leave };
+}
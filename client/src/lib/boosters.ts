@@ -0,0 +1,93 @@
+/**
+ * Booster Inventory
+ * - How many of each booster the player holds, saved in localStorage
+ * - New players start with one of each to try them out
+ * - More are earned from stars (each star a level hasn't given before) and
+ *   from playing the daily challenge
+ * - Versioned like the progress save: one that doesn't validate starts fresh
+ */
+
+import { z } from 'zod';
+import { BOOSTER_TYPES, BoosterType, EXTRA_TIME_SECONDS } from '@shared/game/gameEngine';
+import { getDailySeed } from '@shared/game/daily';
+
+export const INVENTORY_VERSION = 1;
+const INVENTORY_STORAGE_KEY = 'boosterInventory';
+
+// Nobody needs more than this many of one booster
+export const MAX_BOOSTER_COUNT = 99;
+
+const inventorySchema = z.object({
+  version: z.literal(INVENTORY_VERSION),
+  counts: z.record(z.enum(BOOSTER_TYPES), z.number().int().min(0).max(MAX_BOOSTER_COUNT)),
+});
+
+export type BoosterInventory = z.infer<typeof inventorySchema>;
+
+export const BOOSTER_LABELS: Record<BoosterType, string> = {
+  hammer: 'Hammer',
+  shuffle: 'Shuffle',
+  extraTime: `+${EXTRA_TIME_SECONDS}s`,
+  colorSwap: 'Color Swap',
+};
+
+// The booster each star of a level earns, first star first
+const STAR_REWARDS: BoosterType[] = ['hammer', 'extraTime', 'colorSwap'];
+
+function startingInventory(): BoosterInventory {
+  return {
+    version: INVENTORY_VERSION,
+    counts: { hammer: 1, shuffle: 1, extraTime: 1, colorSwap: 1 },
+  };
+}
+
+export function loadInventory(): BoosterInventory {
+  const saved = localStorage.getItem(INVENTORY_STORAGE_KEY);
+  if (!saved) return startingInventory();
+  try {
+    const result = inventorySchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : startingInventory();
+  } catch {
+    return startingInventory();
+  }
+}
+
+function saveInventory(inventory: BoosterInventory): void {
+  localStorage.setItem(INVENTORY_STORAGE_KEY, JSON.stringify(inventory));
+}
+
+// Use up one booster; returns the new inventory, or null if there was none left
+export function spendBooster(booster: BoosterType): BoosterInventory | null {
+  const inventory = loadInventory();
+  if (inventory.counts[booster] <= 0) return null;
+  const next: BoosterInventory = {
+    ...inventory,
+    counts: { ...inventory.counts, [booster]: inventory.counts[booster] - 1 },
+  };
+  saveInventory(next);
+  return next;
+}
+
+export function awardBoosters(boosters: BoosterType[]): BoosterInventory {
+  const inventory = loadInventory();
+  const counts = { ...inventory.counts };
+  boosters.forEach(booster => {
+    counts[booster] = Math.min(counts[booster] + 1, MAX_BOOSTER_COUNT);
+  });
+  const next: BoosterInventory = { ...inventory, counts };
+  saveInventory(next);
+  return next;
+}
+
+// Boosters for the stars a result adds to a level's best (replaying for the
+// same stars earns nothing)
+export function getStarRewards(previousStars: number, stars: number): BoosterType[] {
+  return STAR_REWARDS.slice(previousStars, Math.max(stars, previousStars));
+}
+
+// Each day has a booster of its own: playing the daily challenge earns one,
+// and winning it a second
+export function getDailyRewards(dayKey: string, won: boolean): BoosterType[] {
+  const booster = BOOSTER_TYPES[getDailySeed(dayKey) % BOOSTER_TYPES.length];
+  return won ? [booster, booster] : [booster];
+}
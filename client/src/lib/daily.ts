@@ -0,0 +1,70 @@
+/**
+ * Daily Challenge
+ * - Today's board and rules come from shared/game/daily
+ * - One scored attempt per day; results and the best daily score are kept in a
+ *   versioned localStorage record on this device
+ */
+
+import { z } from 'zod';
+
+export { DAILY_CONFIG, getDailyKey, getDailySeed } from '@shared/game/daily';
+
+const DAILY_VERSION = 1;
+const DAILY_STORAGE_KEY = 'dailyChallenge';
+
+const dailyResultSchema = z.object({
+  score: z.number().int().min(0),
+  won: z.boolean(),
+  stars: z.number().int().min(0).max(3),
+  finished: z.boolean(), // false while the attempt is still being played (or was abandoned)
+});
+
+const dailyRecordsSchema = z.object({
+  version: z.literal(DAILY_VERSION),
+  results: z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/), dailyResultSchema), // Keyed by day
+  bestScore: z.number().int().min(0),
+});
+
+export type DailyResult = z.infer<typeof dailyResultSchema>;
+export type DailyRecords = z.infer<typeof dailyRecordsSchema>;
+
+// Time left until the next challenge (UTC midnight)
+export function getMsUntilNextDaily(now: Date = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return next - now.getTime();
+}
+
+export function loadDailyRecords(): DailyRecords {
+  const empty: DailyRecords = { version: DAILY_VERSION, results: {}, bestScore: 0 };
+  const saved = localStorage.getItem(DAILY_STORAGE_KEY);
+  if (!saved) return empty;
+  try {
+    const result = dailyRecordsSchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export function getDailyResult(records: DailyRecords, dayKey: string): DailyResult | undefined {
+  return records.results[dayKey];
+}
+
+// Record (or update) the day's only attempt. It's recorded as soon as it starts,
+// so leaving part-way through still uses up the day.
+export function recordDailyResult(dayKey: string, result: DailyResult): DailyRecords {
+  const records = loadDailyRecords();
+  const next: DailyRecords = {
+    ...records,
+    results: { ...records.results, [dayKey]: result },
+    bestScore: Math.max(records.bestScore, result.score),
+  };
+  localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+// Spoiler-free summary for sharing
+export function getDailyShareText(dayKey: string, result: DailyResult): string {
+  const rating = result.won ? '⭐'.repeat(result.stars) : '❌';
+  return `Gumball Matcher Daily ${dayKey}\n${result.score.toLocaleString()} points ${rating}`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Leaderboards
+ * - Talks to the server's /api/leaderboards endpoints
+ * - The player is a random id kept in localStorage plus a display name they
+ *   can change; only the name is ever shown to anyone else
+ * - Leaderboards are a bonus: when the server can't be reached (a static
+ *   deploy, or offline) requests fail and the game carries on without them
+ */
+
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import {
+  AttemptResponse,
+  DEFAULT_PAGE_SIZE,
+  LeaderboardPage,
+  RankResponse,
+  SubmitScoreResponse,
+  displayNameSchema,
+  playerIdSchema,
+} from '@shared/leaderboard';
+import { GameReplay } from '@shared/game/replay';
+
+export { GLOBAL_BOARD, dailyBoard, levelBoard } from '@shared/leaderboard';
+
+const PLAYER_STORAGE_KEY = 'leaderboardPlayer';
+
+const playerSchema = z.object({
+  id: playerIdSchema,
+  name: displayNameSchema,
+});
+
+export type Player = z.infer<typeof playerSchema>;
+
+// This device's player, created with a placeholder name on first use
+export function loadPlayer(): Player {
+  const saved = localStorage.getItem(PLAYER_STORAGE_KEY);
+  if (saved) {
+    try {
+      const result = playerSchema.safeParse(JSON.parse(saved));
+      if (result.success) return result.data;
+    } catch {
+      // Fall through to a new player
+    }
+  }
+  const player: Player = { id: nanoid(), name: `Player ${nanoid(4)}` };
+  localStorage.setItem(PLAYER_STORAGE_KEY, JSON.stringify(player));
+  return player;
+}
+
+// Rename the player; returns the saved player, or null if the name isn't allowed
+export function setPlayerName(name: string): Player | null {
+  const result = displayNameSchema.safeParse(name);
+  if (!result.success) return null;
+  const player: Player = { ...loadPlayer(), name: result.data };
+  localStorage.setItem(PLAYER_STORAGE_KEY, JSON.stringify(player));
+  return player;
+}
+
+export class LeaderboardError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'LeaderboardError';
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/leaderboards/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const isJson = response.headers.get('Content-Type')?.includes('application/json');
+  // A static host answers unknown paths with index.html, so HTML means "no server"
+  if (!isJson) throw new LeaderboardError('Leaderboards are unavailable', response.status);
+  const body = await response.json();
+  if (!response.ok) throw new LeaderboardError(body.error ?? 'Request failed', response.status);
+  return body as T;
+}
+
+export function fetchLeaderboard(
+  board: string,
+  offset = 0,
+  limit = DEFAULT_PAGE_SIZE
+): Promise<LeaderboardPage> {
+  const params = new URLSearchParams({
+    offset: String(offset),
+    limit: String(limit),
+    player: loadPlayer().id,
+  });
+  return request(`${board}?${params}`);
+}
+
+export function fetchPlayerRank(board: string): Promise<RankResponse> {
+  return request(`${board}/rank?${new URLSearchParams({ player: loadPlayer().id })}`);
+}
+
+// Have the server deal a level game: the seed to play it on, and the ticket
+// its score needs to be ranked
+export function requestAttempt(board: string): Promise<AttemptResponse> {
+  return request(`${board}/attempts`, {
+    method: 'POST',
+    body: JSON.stringify({ playerId: loadPlayer().id }),
+  });
+}
+
+// Send a finished game's replay (with its ticket, for a level game); the
+// server plays it back and ranks the score it earns
+export function submitScore(
+  board: string,
+  replay: GameReplay,
+  attempt?: string
+): Promise<SubmitScoreResponse> {
+  const { id, name } = loadPlayer();
+  return request(board, {
+    method: 'POST',
+    body: JSON.stringify({ playerId: id, name, replay, attempt }),
+  });
+}
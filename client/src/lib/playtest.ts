@@ -0,0 +1,26 @@
+/**
+ * Play-test Hand-off
+ * - The level editor passes the level being play-tested to the game page
+ *   through session storage, so it survives a reload but not a new tab
+ */
+
+import { LevelDefinition, levelDefinitionSchema } from '@shared/game/levels';
+
+// The editor hands its level to the game through session storage
+const PLAYTEST_STORAGE_KEY = 'playtestLevel';
+
+export function savePlaytestLevel(def: LevelDefinition): void {
+  sessionStorage.setItem(PLAYTEST_STORAGE_KEY, JSON.stringify(def));
+}
+
+// The level being play-tested, or null if there is none (or it no longer validates)
+export function loadPlaytestLevel(): LevelDefinition | null {
+  const saved = sessionStorage.getItem(PLAYTEST_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const result = levelDefinitionSchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
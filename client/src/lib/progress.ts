@@ -0,0 +1,85 @@
+/**
+ * Player Progress
+ * - Best result per level, saved in localStorage
+ * - The save is versioned: a save from another version, or one that no longer
+ *   validates, is set aside and the player starts fresh instead of crashing
+ */
+
+import { z } from 'zod';
+
+export const PROGRESS_VERSION = 1;
+const PROGRESS_STORAGE_KEY = 'gumballProgress';
+
+const levelRecordSchema = z.object({
+  stars: z.number().int().min(1).max(3),
+  bestScore: z.number().int().min(0),
+});
+
+const progressSchema = z.object({
+  version: z.literal(PROGRESS_VERSION),
+  levels: z.record(z.string().regex(/^\d+$/), levelRecordSchema), // Keyed by level number
+});
+
+export type LevelRecord = z.infer<typeof levelRecordSchema>;
+export type Progress = z.infer<typeof progressSchema>;
+
+function emptyProgress(): Progress {
+  return { version: PROGRESS_VERSION, levels: {} };
+}
+
+export function loadProgress(): Progress {
+  const saved = localStorage.getItem(PROGRESS_STORAGE_KEY);
+  if (!saved) return emptyProgress();
+  try {
+    const result = progressSchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : emptyProgress();
+  } catch {
+    return emptyProgress();
+  }
+}
+
+function saveProgress(progress: Progress): void {
+  localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+}
+
+// Best result for a level, or undefined if it has never been beaten
+export function getLevelRecord(progress: Progress, level: number): LevelRecord | undefined {
+  return progress.levels[String(level)];
+}
+
+// Keep the better of a new result and the saved one (stars and score are
+// tracked separately, so a high-scoring one-star run still counts)
+export function recordLevelResult(
+  level: number,
+  result: LevelRecord
+): { progress: Progress; isNewBest: boolean } {
+  const progress = loadProgress();
+  const previous = getLevelRecord(progress, level);
+  const best: LevelRecord = {
+    stars: Math.max(result.stars, previous?.stars ?? 0),
+    bestScore: Math.max(result.bestScore, previous?.bestScore ?? 0),
+  };
+  const isNewBest =
+    !previous || best.stars > previous.stars || best.bestScore > previous.bestScore;
+
+  const next: Progress = { ...progress, levels: { ...progress.levels, [String(level)]: best } };
+  saveProgress(next);
+  return { progress: next, isNewBest };
+}
+
+// The first level is always open; each later one opens once the one before is beaten
+export function isLevelUnlocked(progress: Progress, level: number): boolean {
+  return level === 1 || getLevelRecord(progress, level - 1) !== undefined;
+}
+
+// The furthest level the player can play - where "Continue" picks up
+export function getHighestUnlockedLevel(progress: Progress): number {
+  let level = 1;
+  while (getLevelRecord(progress, level)) level++;
+  return level;
+}
+
+// Stars earned across every level
+export function getTotalStars(progress: Progress): number {
+  return Object.values(progress.levels).reduce((total, record) => total + record.stars, 0);
+}
@@ -0,0 +1,149 @@
+/**
+ * Saved Game
+ * - Snapshot of an in-progress level in localStorage, so a refresh or a killed
+ *   tab can pick up where the player left off
+ * - Only settled (idle) states are saved; animation bookkeeping is rebuilt on load
+ * - The game's replay so far is saved with it, along with the ticket the
+ *   server dealt its seed with, so a resumed game can still be submitted to
+ *   the leaderboards
+ * - Versioned and validated: a save from another build is discarded, never loaded
+ */
+
+import { z } from 'zod';
+import { LevelConfig } from '@shared/game/gameLogic';
+import { GameState } from '@shared/game/gameEngine';
+import { pieceTypeSchema } from '@shared/game/levels';
+import { GameReplay, gameReplaySchema } from '@shared/game/replay';
+
+// Bump whenever GameState (or anything it holds) changes shape
+export const SAVE_VERSION = 4;
+const SAVE_STORAGE_KEY = 'savedGame';
+
+const pieceSchema = z.object({
+  id: z.string(),
+  type: pieceTypeSchema,
+  row: z.number().int().min(0),
+  col: z.number().int().min(0),
+  special: z.enum(['stripedHorizontal', 'stripedVertical', 'wrapped', 'colorBomb']).optional(),
+  blocker: z
+    .discriminatedUnion('type', [
+      z.object({ type: z.literal('lock') }),
+      z.object({ type: z.literal('ice'), hits: z.number().int().positive() }),
+    ])
+    .optional(),
+  ingredient: z.boolean().optional(),
+});
+
+// The config is saved whole so a level that has since been re-authored still
+// resumes as it was played; only the fields the board depends on are checked
+const configSchema = z
+  .looseObject({
+    level: z.number().int().positive(),
+    rows: z.number().int().positive(),
+    cols: z.number().int().positive(),
+    targetScore: z.number(),
+    initialLives: z.number(),
+    hints: z.number(),
+    hintDelay: z.number(),
+  })
+  .transform(config => config as LevelConfig);
+
+const savedGameSchema = z
+  .object({
+    version: z.literal(SAVE_VERSION),
+    savedAt: z.number(),
+    state: z.object({
+      config: configSchema,
+      board: z.array(z.array(pieceSchema.nullable())),
+      jelly: z.array(z.array(z.number().int().min(0))),
+      rng: z.object({ seed: z.number(), state: z.number(), idCounter: z.number() }),
+      score: z.number(),
+      lives: z.number().int().positive(),
+      timeRemaining: z.number().nullable(),
+      level: z.number().int().positive(),
+      moves: z.number().int().min(0),
+      hintsRemaining: z.number().int().min(0),
+      boostersUsed: z.number().int().min(0),
+      collected: z.partialRecord(pieceTypeSchema, z.number().int().min(0)),
+      ingredientsCollected: z.number().int().min(0),
+    }),
+    replay: gameReplaySchema,
+    attempt: z.string().nullable(), // Null for a game the server didn't deal
+  })
+  .superRefine(({ state }, ctx) => {
+    const { rows, cols } = state.config;
+    const fits = (grid: unknown[][]) =>
+      grid.length === rows && grid.every(line => line.length === cols);
+    if (!fits(state.board) || !fits(state.jelly)) {
+      ctx.addIssue({ code: 'custom', path: ['state', 'board'], message: 'Board does not match its level' });
+    }
+    const misplaced = state.board.some((line, row) =>
+      line.some((piece, col) => piece !== null && (piece.row !== row || piece.col !== col))
+    );
+    if (misplaced) {
+      ctx.addIssue({ code: 'custom', path: ['state', 'board'], message: 'Pieces are out of place' });
+    }
+  });
+
+export type SavedGame = z.infer<typeof savedGameSchema>;
+
+export function saveGame(state: GameState, replay: GameReplay, attempt: string | null): void {
+  const saved: SavedGame = {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    replay,
+    attempt,
+    state: {
+      config: state.config,
+      board: state.board,
+      jelly: state.jelly,
+      rng: state.rng,
+      score: state.score,
+      lives: state.lives,
+      timeRemaining: state.timeRemaining,
+      level: state.level,
+      moves: state.moves,
+      hintsRemaining: state.hintsRemaining,
+      boostersUsed: state.boostersUsed,
+      collected: state.collected,
+      ingredientsCollected: state.ingredientsCollected,
+    },
+  };
+  localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(saved));
+}
+
+// The saved game, or null if there is none. Saves that don't validate (another
+// build's, or corrupted) are thrown away.
+export function loadSavedGame(): SavedGame | null {
+  const saved = localStorage.getItem(SAVE_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const result = savedGameSchema.safeParse(JSON.parse(saved));
+    if (result.success) return result.data;
+  } catch {
+    // Fall through to discard it
+  }
+  clearSavedGame();
+  return null;
+}
+
+export function clearSavedGame(): void {
+  localStorage.removeItem(SAVE_STORAGE_KEY);
+}
+
+// Rebuild a playable state from a save, waiting for the player's next move
+export function restoreGame(saved: SavedGame): GameState {
+  return {
+    ...saved.state,
+    rng: { ...saved.state.rng },
+    phase: 'idle',
+    combo: 0,
+    selectedPiece: null,
+    pendingSwap: null,
+    matchedPieces: new Set(),
+    pendingScore: 0,
+    specialCreations: [],
+    cascade: [],
+    cascadeStep: 0,
+  };
+}
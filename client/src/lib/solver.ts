@@ -0,0 +1,78 @@
+/**
+ * Solver Worker Client
+ * - Runs the shared solver in a Web Worker so picking a move never blocks the UI
+ * - Each request gets an id; answers come back in whatever order they finish
+ * - One worker per solver - terminate it when done (e.g. on unmount)
+ */
+
+import { GameState } from '@shared/game/gameEngine';
+import { Board, SpawnRules, getSpawnRules } from '@shared/game/gameLogic';
+import { Rng } from '@shared/game/random';
+import { SolverChoice, SolverStrategy } from '@shared/game/solver';
+
+export interface SolverRequest {
+  id: number;
+  board: Board;
+  rng: Rng;
+  spawn: SpawnRules;
+  strategy: SolverStrategy;
+}
+
+export type SolverResponse =
+  | { id: number; choice: SolverChoice | null }
+  | { id: number; error: string };
+
+export interface Solver {
+  // The move the strategy would make in this game, or null when there's none
+  chooseMove(state: GameState, strategy: SolverStrategy): Promise<SolverChoice | null>;
+  // Stop the worker; anything still waiting is rejected
+  terminate(): void;
+}
+
+export function createSolver(): Solver {
+  const worker = new Worker(new URL('../workers/solver.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<
+    number,
+    { resolve: (choice: SolverChoice | null) => void; reject: (error: Error) => void }
+  >();
+  let nextId = 1;
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<SolverResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ('error' in response) request.reject(new Error(response.error));
+    else request.resolve(response.choice);
+  });
+  worker.addEventListener('error', event => {
+    event.preventDefault();
+    rejectAll(new Error(event.message || 'The solver stopped unexpectedly'));
+  });
+
+  return {
+    chooseMove(state, strategy) {
+      const id = nextId++;
+      const request: SolverRequest = {
+        id,
+        board: state.board,
+        rng: state.rng,
+        spawn: getSpawnRules(state.config),
+        strategy,
+      };
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        worker.postMessage(request);
+      });
+    },
+    terminate() {
+      worker.terminate();
+      rejectAll(new Error('The solver was stopped'));
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Daily Challenge Page
+ * Design Philosophy: Candy Pop Maximalism
+ * - Today's challenge: the same board for everyone, one scored attempt
+ * - After playing, shows the result, a share button and the wait until tomorrow's
+ * - Today's leaderboard underneath
+ */
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useLocation } from 'wouter';
+import { toast } from 'sonner';
+import { CalendarDays, Home, Play, Share2, Trophy } from 'lucide-react';
+import LeaderboardPanel from '@/components/LeaderboardPanel';
+import StarRating from '@/components/StarRating';
+import { Button } from '@/components/ui/button';
+import {
+  DAILY_CONFIG,
+  getDailyKey,
+  getDailyResult,
+  getDailyShareText,
+  getMsUntilNextDaily,
+  loadDailyRecords,
+} from '@/lib/daily';
+import { dailyBoard } from '@/lib/leaderboard';
+
+// hh:mm:ss
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+export default function Daily() {
+  const [, setLocation] = useLocation();
+  const [dayKey] = useState(() => getDailyKey());
+  const [records] = useState(loadDailyRecords);
+  const [msUntilNext, setMsUntilNext] = useState(() => getMsUntilNextDaily());
+  const result = getDailyResult(records, dayKey);
+
+  // Tick down to tomorrow's challenge
+  useEffect(() => {
+    const interval = setInterval(() => setMsUntilNext(getMsUntilNextDaily()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleShare = async () => {
+    if (!result) return;
+    const text = getDailyShareText(dayKey, result);
+    try {
+      if (navigator.share) {
+        await navigator.share({ text });
+      } else {
+        await navigator.clipboard.writeText(text);
+        toast.success('Result copied to the clipboard');
+      }
+    } catch (error) {
+      // Closing the share sheet isn't a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast.error("Couldn't share your result");
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen min-h-[100dvh] bg-gradient-to-b from-pink-200 via-purple-200 to-cyan-200 p-2 sm:p-4"
+      style={{
+        backgroundImage: `url('/images/game-background.png')`,
+        backgroundSize: 'cover',
+        backgroundAttachment: 'fixed',
+      }}
+    >
+      <div className="max-w-md mx-auto space-y-3">
+        {/* Header */}
+        <div className="flex items-center gap-2 bg-white/90 rounded-2xl p-2 sm:p-3 shadow-xl border-2 border-primary">
+          <Button
+            onClick={() => setLocation('/')}
+            variant="outline"
+            size="icon"
+            className="rounded-full border-2 border-primary"
+          >
+            <Home className="w-4 h-4 text-primary" />
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-poppins font-bold text-primary mr-auto">Daily Challenge</h1>
+          <div className="flex items-center gap-1 font-fredoka text-sm text-foreground/70">
+            <CalendarDays className="w-4 h-4" />
+            {dayKey}
+          </div>
+        </div>
+
+        <motion.div
+          className="bg-white/90 rounded-3xl p-5 shadow-xl border-2 border-primary text-center space-y-4"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {result ? (
+            <>
+              <p className="text-sm font-fredoka font-semibold text-purple-600 uppercase tracking-wider">
+                {result.finished ? "Today's score" : 'Attempt left unfinished'}
+              </p>
+              <p className="text-5xl font-poppins font-bold bg-gradient-to-r from-purple-600 via-pink-500 to-rose-500 bg-clip-text text-transparent">
+                {result.score.toLocaleString()}
+              </p>
+              {result.won && <StarRating stars={result.stars} className="w-7 h-7" />}
+              <Button
+                onClick={handleShare}
+                className="w-full bg-gradient-to-r from-cyan-400 to-blue-500 hover:from-cyan-500 hover:to-blue-600 text-white font-fredoka font-bold text-lg py-5 rounded-2xl"
+              >
+                <Share2 className="w-5 h-5" /> Share
+              </Button>
+              <p className="font-fredoka text-sm text-foreground/70">
+                Next challenge in <span className="font-bold tabular-nums">{formatCountdown(msUntilNext)}</span>
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="font-fredoka text-foreground leading-relaxed">
+                Everyone plays the same board today. Score{' '}
+                <strong>{DAILY_CONFIG.targetScore.toLocaleString()}</strong> in{' '}
+                <strong>{DAILY_CONFIG.moveLimit} moves</strong> - and you only get one try!
+              </p>
+              <Button
+                onClick={() => setLocation('/game?daily')}
+                className="w-full bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-white font-fredoka font-bold text-lg py-6 rounded-2xl shadow-lg border-2 border-white"
+              >
+                <Play className="w-5 h-5" /> Play Today's Board
+              </Button>
+            </>
+          )}
+        </motion.div>
+
+        {records.bestScore > 0 && (
+          <div className="flex items-center justify-center gap-2 bg-white/80 rounded-2xl p-3 shadow-md font-fredoka">
+            <Trophy className="w-5 h-5 text-amber-500" />
+            Best daily score: <strong>{records.bestScore.toLocaleString()}</strong>
+          </div>
+        )}
+
+        <LeaderboardPanel tabs={[{ board: dailyBoard(dayKey), label: 'Today' }]} />
+      </div>
+    </div>
+  );
+}
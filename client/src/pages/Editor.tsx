@@ -0,0 +1,605 @@
+/**
+ * Level Editor Page
+ * Design Philosophy: Candy Pop Maximalism
+ * - Paint starting pieces straight onto the real game board
+ * - Edit every level setting and see validation problems as you type
+ * - Play-test, export and import levels in the same JSON format the game ships
+ */
+
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'wouter';
+import { toast } from 'sonner';
+import { Download, Droplet, Eraser, Home, Lock, Play, RefreshCw, Snowflake, SquareDashed, Upload } from 'lucide-react';
+import GameBoard from '@/components/GameBoard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  PIECE_TYPES,
+  PieceType,
+  StarMetric,
+  getPieces,
+  getSpawnRules,
+  getStarMetric,
+  getStarThresholds,
+  initializeBoard,
+} from '@shared/game/gameLogic';
+import {
+  AUTHORED_LEVELS,
+  HOLE_CELL,
+  LAYOUT_CODES,
+  LEVEL_FORMAT_VERSION,
+  LOCK_CELL,
+  LevelDefinition,
+  MAX_ICE_HITS,
+  MAX_JELLY_LAYERS,
+  RANDOM_CELL,
+  levelDefinitionSchema,
+  levelFileSchema,
+  parseJelly,
+  toLevelConfig,
+} from '@shared/game/levels';
+import { loadPlaytestLevel, savePlaytestLevel } from '@/lib/playtest';
+import { createRng, createSeed } from '@shared/game/random';
+
+// Swatch colors for the paint palette (match the gumballs)
+const SWATCHES: Record<PieceType, string> = {
+  red: '#E53935',
+  yellow: '#FDD835',
+  blue: '#1E88E5',
+  pink: '#EC407A',
+  purple: '#8E24AA',
+  orange: '#FB8C00',
+};
+
+const CODE_FOR_TYPE = Object.fromEntries(
+  Object.entries(LAYOUT_CODES).map(([code, type]) => [type, code])
+) as Record<PieceType, string>;
+
+const GRID_SIZES = [5, 6, 7, 8, 9, 10, 11, 12];
+
+const STAR_METRIC_LABELS: Record<StarMetric, string> = {
+  score: 'by score',
+  timeLeft: 'by seconds left',
+  movesLeft: 'by moves left',
+};
+
+// A paint tool is a color, 'random' to hand the cell back to the spawner,
+// 'hole' to cut the cell out of the board, 'jelly' to add a jelly layer, or
+// 'lock' / 'ice' to cover the cell's piece with a blocker
+type Tool = PieceType | 'random' | 'hole' | 'jelly' | 'lock' | 'ice';
+
+interface EditorDraft extends LevelDefinition {
+  layout: string[];
+  jelly: string[];
+  blockers: string[];
+}
+
+// Pad or trim layout, jelly or blocker rows to the grid, leaving new cells blank ('.')
+function resizeRows(lines: string[] | undefined, rows: number, cols: number): string[] {
+  return Array.from({ length: rows }, (_, row) =>
+    (lines?.[row] ?? '').slice(0, cols).padEnd(cols, RANDOM_CELL)
+  );
+}
+
+function setCell(lines: string[], row: number, col: number, code: string): string[] {
+  return lines.map((line, r) => (r === row ? line.slice(0, col) + code + line.slice(col + 1) : line));
+}
+
+function toDraft(def: LevelDefinition): EditorDraft {
+  const { rows, cols } = def.grid;
+  return {
+    ...def,
+    layout: resizeRows(def.layout, rows, cols),
+    jelly: resizeRows(def.jelly, rows, cols),
+    blockers: resizeRows(def.blockers, rows, cols),
+  };
+}
+
+// The definition as it is saved: layout, jelly and blockers with nothing painted are left out
+function toDefinition(draft: EditorDraft): LevelDefinition {
+  const isBlank = (lines: string[]) => lines.every(line => line.replaceAll(RANDOM_CELL, '') === '');
+  return {
+    ...draft,
+    layout: isBlank(draft.layout) ? undefined : draft.layout,
+    jelly: isBlank(draft.jelly) ? undefined : draft.jelly,
+    blockers: isBlank(draft.blockers) ? undefined : draft.blockers,
+  };
+}
+
+// Empty inputs mean "not set" for optional numbers
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="font-fredoka text-xs uppercase text-foreground/70">{label}</Label>
+      <Input
+        type="number"
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={e => onChange(parseOptionalNumber(e.target.value))}
+        className="h-8 bg-white"
+      />
+    </div>
+  );
+}
+
+export default function Editor() {
+  const [, setLocation] = useLocation();
+  const [draft, setDraft] = useState<EditorDraft>(() =>
+    toDraft(loadPlaytestLevel() ?? AUTHORED_LEVELS[0])
+  );
+  const [tool, setTool] = useState<Tool>('red');
+  const [previewSeed, setPreviewSeed] = useState(createSeed);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<EditorDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const validation = levelDefinitionSchema.safeParse(toDefinition(draft));
+  const issues = validation.success ? [] : validation.error.issues;
+  const { rows, cols } = draft.grid;
+  const colors = draft.colors ?? PIECE_TYPES;
+
+  // What the level could start like: painted cells are fixed, the rest are rolled
+  // from the preview seed (shown faded)
+  const { board, randomIds } = useMemo(() => {
+    const config = toLevelConfig({ ...draft, colors: draft.colors?.length ? draft.colors : undefined });
+    const preview = initializeBoard(
+      config,
+      createRng(previewSeed),
+      getSpawnRules(config),
+      config.layout,
+      config.blockers
+    );
+    const ids = new Set(
+      getPieces(preview)
+        .filter(piece => !config.layout?.[piece.row]?.[piece.col])
+        .map(piece => piece.id)
+    );
+    return { board: preview, randomIds: ids };
+  }, [draft, previewSeed]);
+
+  const paintCell = (row: number, col: number) => {
+    if (tool === 'jelly') {
+      // Each click adds a layer, wrapping back to none
+      const layers = (Number(draft.jelly[row][col]) || 0) + 1;
+      const code = layers > MAX_JELLY_LAYERS ? RANDOM_CELL : String(layers);
+      update({ jelly: setCell(draft.jelly, row, col, code) });
+      return;
+    }
+    if (tool === 'lock') {
+      // Clicking a lock again takes it off
+      const code = draft.blockers[row][col] === LOCK_CELL ? RANDOM_CELL : LOCK_CELL;
+      update({ blockers: setCell(draft.blockers, row, col, code) });
+      return;
+    }
+    if (tool === 'ice') {
+      // Each click makes the ice one hit tougher, wrapping back to none
+      const hits = (Number(draft.blockers[row][col]) || 0) + 1;
+      const code = hits > MAX_ICE_HITS ? RANDOM_CELL : String(hits);
+      update({ blockers: setCell(draft.blockers, row, col, code) });
+      return;
+    }
+    if (tool === 'hole') {
+      // Holes can't hold jelly or blockers
+      update({
+        layout: setCell(draft.layout, row, col, HOLE_CELL),
+        jelly: setCell(draft.jelly, row, col, RANDOM_CELL),
+        blockers: setCell(draft.blockers, row, col, RANDOM_CELL),
+      });
+      return;
+    }
+    const code = tool === 'random' ? RANDOM_CELL : CODE_FOR_TYPE[tool];
+    update({ layout: setCell(draft.layout, row, col, code) });
+  };
+
+  const setGrid = (grid: { rows: number; cols: number }) => {
+    update({
+      grid,
+      layout: resizeRows(draft.layout, grid.rows, grid.cols),
+      jelly: resizeRows(draft.jelly, grid.rows, grid.cols),
+      blockers: resizeRows(draft.blockers, grid.rows, grid.cols),
+    });
+  };
+
+  const hasClearJelly = draft.objectives.some(objective => objective.type === 'clearJelly');
+  const toggleClearJelly = () => {
+    update({
+      objectives: hasClearJelly
+        ? draft.objectives.filter(objective => objective.type !== 'clearJelly')
+        : [...draft.objectives, { type: 'clearJelly' }],
+    });
+  };
+
+  // Collect and ingredient objectives are edited as counts: clearing one removes it
+  const collectCounts = Object.fromEntries(
+    draft.objectives.flatMap(objective =>
+      objective.type === 'collect' ? [[objective.color, objective.count]] : []
+    )
+  ) as Partial<Record<PieceType, number>>;
+  const setCollect = (color: PieceType, count: number | undefined) => {
+    const others = draft.objectives.filter(
+      objective => !(objective.type === 'collect' && objective.color === color)
+    );
+    update({
+      objectives: count === undefined ? others : [...others, { type: 'collect', color, count }],
+    });
+  };
+
+  const ingredients = draft.objectives.find(objective => objective.type === 'ingredients');
+  const setIngredients = (count: number | undefined) => {
+    const others = draft.objectives.filter(objective => objective.type !== 'ingredients');
+    update({
+      objectives: count === undefined ? others : [...others, { type: 'ingredients', count }],
+    });
+  };
+
+  const toggleColor = (type: PieceType) => {
+    const next = colors.includes(type) ? colors.filter(c => c !== type) : [...colors, type];
+    update({ colors: PIECE_TYPES.filter(c => next.includes(c)) });
+  };
+
+  const setWeight = (type: PieceType, weight: number | undefined) => {
+    const weights = { ...draft.spawnWeights };
+    if (weight === undefined) delete weights[type];
+    else weights[type] = weight;
+    update({ spawnWeights: Object.keys(weights).length > 0 ? weights : undefined });
+  };
+
+  const setStar = (index: number, value: number | undefined) => {
+    if (value === undefined) {
+      update({ starThresholds: undefined });
+      return;
+    }
+    const stars = draft.starThresholds ?? getStarThresholds(draft);
+    const next: [number, number, number] = [...stars];
+    next[index] = value;
+    update({ starThresholds: next });
+  };
+
+  const handlePlaytest = () => {
+    if (!validation.success) return;
+    savePlaytestLevel(validation.data);
+    setLocation('/game?playtest');
+  };
+
+  const handleExport = () => {
+    if (!validation.success) return;
+    const file = { version: LEVEL_FORMAT_VERSION, levels: [validation.data] };
+    const blob = new Blob([JSON.stringify(file, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `level-${draft.level}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = levelFileSchema.safeParse(JSON.parse(await file.text()));
+      if (!result.success) {
+        toast.error(`Can't import ${file.name}: ${result.error.issues[0].message}`);
+        return;
+      }
+      const [first] = result.data.levels;
+      if (!first) {
+        toast.error(`${file.name} has no levels`);
+        return;
+      }
+      setDraft(toDraft(first));
+      toast.success(
+        result.data.levels.length > 1
+          ? `Loaded level ${first.level} (first of ${result.data.levels.length})`
+          : `Loaded level ${first.level}`
+      );
+    } catch {
+      toast.error(`${file.name} is not valid JSON`);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen min-h-[100dvh] bg-gradient-to-b from-pink-200 via-purple-200 to-cyan-200 p-2 sm:p-4"
+      style={{
+        backgroundImage: `url('/images/game-background.png')`,
+        backgroundSize: 'cover',
+        backgroundAttachment: 'fixed',
+      }}
+    >
+      <div className="max-w-6xl mx-auto space-y-3">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 bg-white/90 rounded-2xl p-2 sm:p-3 shadow-xl border-2 border-primary">
+          <Button
+            onClick={() => setLocation('/')}
+            variant="outline"
+            size="icon"
+            className="rounded-full border-2 border-primary"
+          >
+            <Home className="w-4 h-4 text-primary" />
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-poppins font-bold text-primary mr-auto">Level Editor</h1>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="font-fredoka">
+            <Upload className="w-4 h-4" /> Import
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={!validation.success} className="font-fredoka">
+            <Download className="w-4 h-4" /> Export
+          </Button>
+          <Button
+            onClick={handlePlaytest}
+            disabled={!validation.success}
+            className="bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-white font-fredoka font-bold"
+          >
+            <Play className="w-4 h-4" /> Play-test
+          </Button>
+        </div>
+
+        <div className="grid lg:grid-cols-[1fr_320px] gap-3">
+          {/* Board and paint palette */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-center gap-2 bg-white/90 rounded-2xl p-2 shadow-md">
+              {PIECE_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setTool(type)}
+                  disabled={!colors.includes(type)}
+                  title={type}
+                  className={`w-8 h-8 rounded-full border-4 transition-transform disabled:opacity-30 ${
+                    tool === type ? 'border-primary scale-110' : 'border-white'
+                  }`}
+                  style={{ backgroundColor: SWATCHES[type] }}
+                />
+              ))}
+              <Button
+                variant={tool === 'random' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('random')}
+                className="font-fredoka rounded-full"
+              >
+                <Eraser className="w-4 h-4" /> Random
+              </Button>
+              <Button
+                variant={tool === 'hole' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('hole')}
+                className="font-fredoka rounded-full"
+              >
+                <SquareDashed className="w-4 h-4" /> Hole
+              </Button>
+              <Button
+                variant={tool === 'jelly' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('jelly')}
+                title="Click a cell to add a layer of jelly"
+                className="font-fredoka rounded-full"
+              >
+                <Droplet className="w-4 h-4" /> Jelly
+              </Button>
+              <Button
+                variant={tool === 'lock' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('lock')}
+                title="Click a cell to lock or unlock its piece"
+                className="font-fredoka rounded-full"
+              >
+                <Lock className="w-4 h-4" /> Lock
+              </Button>
+              <Button
+                variant={tool === 'ice' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('ice')}
+                title="Click a cell to add a hit of ice"
+                className="font-fredoka rounded-full"
+              >
+                <Snowflake className="w-4 h-4" /> Ice
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  update({
+                    layout: resizeRows(undefined, rows, cols),
+                    jelly: resizeRows(undefined, rows, cols),
+                    blockers: resizeRows(undefined, rows, cols),
+                  })
+                }
+                className="font-fredoka rounded-full"
+              >
+                Clear
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPreviewSeed(createSeed())}
+                title="Reroll the random cells"
+                className="font-fredoka rounded-full"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <GameBoard
+              board={board}
+              jelly={parseJelly(draft.jelly)}
+              selectedPiece={null}
+              matchedPieces={new Set()}
+              dimmedPieces={randomIds}
+              onPieceClick={paintCell}
+              isAnimating={false}
+            />
+          </div>
+
+          {/* Level settings */}
+          <div className="bg-white/90 rounded-2xl p-3 shadow-xl border-2 border-primary space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Level" value={draft.level} onChange={level => level && update({ level })} />
+              <div className="space-y-1">
+                <Label className="font-fredoka text-xs uppercase text-foreground/70">Rows × columns</Label>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={rows}
+                    onChange={e => setGrid({ rows: Number(e.target.value), cols })}
+                    className="h-8 w-full rounded-md border bg-white px-1 text-sm"
+                  >
+                    {GRID_SIZES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  ×
+                  <select
+                    value={cols}
+                    onChange={e => setGrid({ rows, cols: Number(e.target.value) })}
+                    className="h-8 w-full rounded-md border bg-white px-1 text-sm"
+                  >
+                    {GRID_SIZES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <NumberField
+                label="Time limit (s)"
+                value={draft.timeLimit}
+                placeholder="None"
+                onChange={timeLimit => update({ timeLimit })}
+              />
+              <NumberField
+                label="Move limit"
+                value={draft.moveLimit}
+                placeholder="None"
+                onChange={moveLimit => update({ moveLimit })}
+              />
+              <NumberField
+                label="Target score"
+                value={draft.targetScore}
+                onChange={targetScore => update({ targetScore: targetScore ?? 0 })}
+              />
+              <NumberField label="Lives" value={draft.lives} onChange={lives => update({ lives: lives ?? 0 })} />
+              <NumberField label="Hints" value={draft.hints} onChange={hints => update({ hints: hints ?? 0 })} />
+              <NumberField
+                label="Hint delay (s)"
+                value={draft.hintDelay}
+                onChange={hintDelay => update({ hintDelay: hintDelay ?? 0 })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="font-fredoka text-xs uppercase text-foreground/70">Objectives</Label>
+              <label className="flex items-center gap-2 font-fredoka text-sm">
+                <input type="checkbox" checked={hasClearJelly} onChange={toggleClearJelly} />
+                Clear all jelly
+              </label>
+              <NumberField
+                label="Ingredients to bring down"
+                value={ingredients?.type === 'ingredients' ? ingredients.count : undefined}
+                placeholder="None"
+                onChange={setIngredients}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="font-fredoka text-xs uppercase text-foreground/70">Stars (1 / 2 / 3)</Label>
+                <select
+                  value={getStarMetric(draft)}
+                  onChange={e => update({ starMetric: e.target.value as StarMetric })}
+                  className="h-7 rounded-md border bg-white px-1 text-xs"
+                >
+                  {Object.entries(STAR_METRIC_LABELS).map(([metric, label]) => (
+                    <option key={metric} value={metric}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {[0, 1, 2].map(index => (
+                  <Input
+                    key={index}
+                    type="number"
+                    value={draft.starThresholds?.[index] ?? ''}
+                    placeholder={String(getStarThresholds(draft)[index])}
+                    onChange={e => setStar(index, parseOptionalNumber(e.target.value))}
+                    className="h-8 bg-white"
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="font-fredoka text-xs uppercase text-foreground/70">
+                Colors, spawn weights and collect goals
+              </Label>
+              {PIECE_TYPES.map(type => (
+                <div key={type} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={colors.includes(type)}
+                    onChange={() => toggleColor(type)}
+                  />
+                  <span
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: SWATCHES[type] }}
+                  />
+                  <span className="font-fredoka text-sm capitalize flex-1">{type}</span>
+                  <Input
+                    type="number"
+                    step="0.5"
+                    value={draft.spawnWeights?.[type] ?? ''}
+                    placeholder="1"
+                    disabled={!colors.includes(type)}
+                    onChange={e => setWeight(type, parseOptionalNumber(e.target.value))}
+                    className="h-7 w-20 bg-white"
+                  />
+                  <Input
+                    type="number"
+                    value={collectCounts[type] ?? ''}
+                    placeholder="Collect"
+                    title={`Pieces of ${type} to collect`}
+                    disabled={!colors.includes(type)}
+                    onChange={e => setCollect(type, parseOptionalNumber(e.target.value))}
+                    className="h-7 w-20 bg-white"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Validation problems block play-testing and export */}
+            {issues.length > 0 && (
+              <ul className="text-xs font-fredoka text-red-600 bg-red-50 rounded-lg p-2 space-y-0.5">
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.path.length > 0 && <strong>{issue.path.join('.')}: </strong>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
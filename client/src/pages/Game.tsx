@@ -4,428 +4,534 @@
  * - Complete match-three game implementation
  * - Responsive layout with animations
  * - Vibrant, playful user experience
+ * - Boosters bar under the board on campaign levels
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import GameBoard, { GameBoardRef } from '@/components/GameBoard';
+import GameBoard, { GameBoardRef, getPhaseDuration } from '@/components/GameBoard';
 import GameUI from '@/components/GameUI';
 import ParticleEffects, { ParticlePosition } from '@/components/ParticleEffects';
 import FloatingPoints, { MatchPosition } from '@/components/FloatingPoints';
 import ComboEffects from '@/components/ComboEffects';
+import ShuffleOverlay from '@/components/ShuffleOverlay';
+import BoostersBar from '@/components/BoostersBar';
 import { LevelCompleteModal, GameOverModal } from '@/components/GameModals';
 import { Button } from '@/components/ui/button';
 import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { MatchGroup, getMovesRemaining } from '@shared/game/gameLogic';
+import { loadLevelConfig, toLevelConfig } from '@shared/game/levels';
+import { loadPlaytestLevel } from '@/lib/playtest';
+import {
+  ANIMATING_PHASES,
+  BoosterType,
+  GameAction,
+  GameEvent,
   GameState,
-  GamePiece,
-  initializeBoard,
-  areAdjacent,
-  swapPieces,
-  findMatches,
-  findMatchPositions,
-  removeMatchedAndApplyGravity,
-  getLevelConfig,
-  calculateScore,
-  isLevelComplete,
-  isGameOver,
-} from '@/lib/gameLogic';
+  canUseBooster,
+  createGameState,
+  getObjectiveProgress,
+  getStars,
+  reduceGame,
+} from '@shared/game/gameEngine';
+import { getLevelRecord, isLevelUnlocked, loadProgress, recordLevelResult } from '@/lib/progress';
+import { SavedGame, clearSavedGame, loadSavedGame, restoreGame, saveGame } from '@/lib/savegame';
+import {
+  DAILY_CONFIG,
+  getDailyKey,
+  getDailyResult,
+  getDailySeed,
+  loadDailyRecords,
+  recordDailyResult,
+} from '@/lib/daily';
+import { dailyBoard, levelBoard, requestAttempt, submitScore } from '@/lib/leaderboard';
+import {
+  BOOSTER_LABELS,
+  awardBoosters,
+  getDailyRewards,
+  getStarRewards,
+  loadInventory,
+  spendBooster,
+} from '@/lib/boosters';
+import { createSeed } from '@shared/game/random';
+import { GameReplay, MIN_MOVE_INTERVAL_MS, createReplay, recordMove } from '@shared/game/replay';
 import { useSoundEffects } from '@/hooks/useSoundEffects';
+import { usePersistFn } from '@/hooks/usePersistFn';
 import { Home } from 'lucide-react';
-import { useLocation } from 'wouter';
+import { useLocation, useParams, useSearch } from 'wouter';
+import { toast } from 'sonner';
 
 export default function Game() {
   const [, setLocation] = useLocation();
-  const [level, setLevel] = useState(1);
+  const search = new URLSearchParams(useSearch());
+  // Launched from the level editor: play its level instead of the campaign
+  const isPlaytest = search.has('playtest');
+  const [playtestLevel] = useState(() => (isPlaytest ? loadPlaytestLevel() : null));
+  // Daily challenge: today's board, with one attempt that isn't campaign progress
+  const isDaily = search.has('daily');
+  const [dailyKey] = useState(() => getDailyKey());
+  // Campaign levels come from the URL (/game/:level), so reloads and replays land on the right one
+  const params = useParams<{ level?: string }>();
+  const level = isDaily
+    ? DAILY_CONFIG.level
+    : (playtestLevel?.level ?? (Number(params.level) || 1));
+  const isCampaign = !isDaily && !playtestLevel;
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [showLevelComplete, setShowLevelComplete] = useState(false);
   const [showGameOver, setShowGameOver] = useState(false);
+  const [levelResult, setLevelResult] = useState({ stars: 0, isNewBest: false });
+  const [leaderboardRank, setLeaderboardRank] = useState<number | null>(null);
   const [particleTrigger, setParticleTrigger] = useState(false);
   const [particlePositions, setParticlePositions] = useState<ParticlePosition[]>([]);
   const [floatingPointsTrigger, setFloatingPointsTrigger] = useState(false);
   const [matchPositions, setMatchPositions] = useState<MatchPosition[]>([]);
-  const [invalidSwapPieces, setInvalidSwapPieces] = useState<Set<string>>(new Set());
   const [comboCount, setComboCount] = useState(0);
   const [comboTrigger, setComboTrigger] = useState(false);
-  const [screenShake, setScreenShake] = useState(false);
-  const gameLoopRef = useRef<NodeJS.Timeout | null>(null);
-  const matchCheckRef = useRef<NodeJS.Timeout | null>(null);
-  
+  const [hintPieces, setHintPieces] = useState<Set<string>>(new Set());
+  const [blockedPieceId, setBlockedPieceId] = useState<string | null>(null);
+  const [resumePrompt, setResumePrompt] = useState<SavedGame | null>(null);
+  const [inventory, setInventory] = useState(loadInventory);
+  // The hammer and color swap wait for the player to pick pieces; the color
+  // swap's first pick is held here
+  const [activeBooster, setActiveBooster] = useState<BoosterType | null>(null);
+  const [colorSwapFrom, setColorSwapFrom] = useState<{ row: number; col: number } | null>(null);
+  // A shuffle the player asked for isn't a dead board
+  const [shuffleByBooster, setShuffleByBooster] = useState(false);
+  // Latest engine state, so dispatch never works from a stale render
+  const stateRef = useRef<GameState | null>(null);
+  // Every swap so far, for the leaderboard to replay
+  const replayRef = useRef<GameReplay | null>(null);
+  // The ticket the server dealt a campaign game's seed with; without one the
+  // game isn't ranked
+  const attemptRef = useRef<string | null>(null);
+  // Counts level starts, so a dealt seed that arrives after the player has
+  // moved on is dropped
+  const startCountRef = useRef(0);
+  // Play time banked before this session, and when this session started
+  const playClockRef = useRef({ banked: 0, since: 0 });
+  // The time of play the action being dispatched is stamped with
+  const actionTimeRef = useRef(0);
+
   // Sound effects
   const { playMatch, playSelect, playCombo, playLevelComplete, playGameOver, playInvalid } = useSoundEffects();
   const gameBoardRef = useRef<GameBoardRef>(null);
-  const pendingSwapRef = useRef<{
-    pos1: { row: number; col: number };
-    pos2: { row: number; col: number };
-    originalBoard: GamePiece[][];
-  } | null>(null);
-  const comboCountRef = useRef(0);
-
-  // Initialize game
+
+  // Start (or restart) a level with a fresh seed. The daily board's seed is the
+  // day's; a campaign level's is dealt by the leaderboard server, or made up
+  // here (and left unranked) when the server can't be reached.
+  const startLevel = useCallback((levelNumber: number) => {
+    const config = isDaily
+      ? DAILY_CONFIG
+      : playtestLevel
+        ? toLevelConfig(playtestLevel)
+        : loadLevelConfig(levelNumber);
+    const start = ++startCountRef.current;
+    const begin = (seed: number, attempt: string | null) => {
+      if (start !== startCountRef.current) return;
+      const state = createGameState(config, seed);
+      stateRef.current = state;
+      replayRef.current = createReplay(seed, config.level);
+      attemptRef.current = attempt;
+      playClockRef.current = { banked: 0, since: performance.now() };
+      setGameState(state);
+      setComboCount(0);
+      setActiveBooster(null);
+      setColorSwapFrom(null);
+    };
+
+    if (isDaily) {
+      begin(getDailySeed(dailyKey), null);
+    } else if (playtestLevel) {
+      begin(createSeed(), null);
+    } else {
+      stateRef.current = null;
+      setGameState(null);
+      requestAttempt(levelBoard(levelNumber))
+        .then(({ seed, attempt }) => begin(seed, attempt))
+        .catch(() => begin(createSeed(), null));
+    }
+  }, [isDaily, dailyKey, playtestLevel]);
+
+  // Initialize game - levels that haven't been unlocked yet bounce back to the map,
+  // and a game saved part-way through this level is offered back first
   useEffect(() => {
-    const config = getLevelConfig(level);
-    const newBoard = initializeBoard(config.gridSize);
-
-    setGameState({
-      board: newBoard,
-      score: 0,
-      lives: config.initialLives,
-      timeRemaining: config.timeLimit,
-      level,
-      moves: 0,
-      selectedPiece: null,
-      isAnimating: false,
-      gameOver: false,
-      levelComplete: false,
-      matchedPieces: new Set(),
-    });
-  }, [level]);
+    if (isDaily) {
+      // One go per day: starting uses it up, so a refresh goes back to the results
+      if (getDailyResult(loadDailyRecords(), dailyKey)) {
+        setLocation('/daily', { replace: true });
+        return;
+      }
+      recordDailyResult(dailyKey, { score: 0, won: false, stars: 0, finished: false });
+      startLevel(level);
+      return;
+    }
+    if (!playtestLevel && !isLevelUnlocked(loadProgress(), level)) {
+      setLocation('/levels', { replace: true });
+      return;
+    }
+    const saved = playtestLevel ? null : loadSavedGame();
+    if (saved?.state.level === level) {
+      stateRef.current = null;
+      setGameState(null);
+      setResumePrompt(saved);
+      return;
+    }
+    startLevel(level);
+  }, [level, isDaily, dailyKey, playtestLevel, startLevel, setLocation]);
+
+  const handleResume = () => {
+    const state = restoreGame(resumePrompt!);
+    stateRef.current = state;
+    replayRef.current = resumePrompt!.replay;
+    attemptRef.current = resumePrompt!.attempt;
+    // A timed level picks up from the clock's last tick, which was saved
+    const ticked = state.timeRemaining === null ? 0 : (state.config.timeLimit! - state.timeRemaining) * 1000;
+    playClockRef.current = { banked: Math.max(resumePrompt!.replay.duration, ticked), since: performance.now() };
+    setGameState(state);
+    setComboCount(0);
+    setResumePrompt(null);
+  };
 
-  // Game loop - timer countdown
+  const handleStartOver = () => {
+    clearSavedGame();
+    setResumePrompt(null);
+    startLevel(level);
+  };
+
+  // Autosave each time the board settles (and every clock tick while it is);
+  // a finished level has nothing left to resume. Play-tests are never saved, and
+  // the daily challenge keeps its score up to date instead of being resumable.
   useEffect(() => {
-    if (!gameState || gameState.gameOver || gameState.levelComplete) return;
+    if (!gameState || playtestLevel) return;
+    const isOver = gameState.phase === 'won' || gameState.phase === 'lost';
+    if (isDaily) {
+      if (gameState.phase !== 'idle' && !isOver) return;
+      recordDailyResult(dailyKey, {
+        score: gameState.score,
+        won: gameState.phase === 'won',
+        stars: getStars(gameState),
+        finished: isOver,
+      });
+      return;
+    }
+    if (gameState.phase === 'idle') saveGame(gameState, replayRef.current!, attemptRef.current);
+    else if (isOver) clearSavedGame();
+  }, [gameState, isDaily, dailyKey, playtestLevel]);
+
+  // Particles and floating points at each match group, with what it scored
+  const showMatchEffects = (groups: MatchGroup[], groupScores: number[]) => {
+    const newParticlePositions: ParticlePosition[] = [];
+    const newMatchPositions: MatchPosition[] = [];
+
+    groups.forEach((group, index) => {
+      // Get the center position of this match group in screen coordinates
+      const screenPos = gameBoardRef.current?.getPiecePosition(
+        Math.round(group.centerRow),
+        Math.round(group.centerCol)
+      );
+      if (!screenPos) return;
+
+      // Add particle burst position
+      newParticlePositions.push({ x: screenPos.x, y: screenPos.y });
+
+      // Add floating points position with the group's score (bigger shapes earn more)
+      newMatchPositions.push({ x: screenPos.x, y: screenPos.y, points: groupScores[index] });
+    });
 
-    gameLoopRef.current = setInterval(() => {
-      setGameState(prev => {
-        if (!prev) return prev;
+    // Trigger particle effects at match positions
+    setParticlePositions(newParticlePositions);
+    setParticleTrigger(true);
+    setTimeout(() => setParticleTrigger(false), 100);
 
-        const newTimeRemaining = prev.timeRemaining - 1;
+    // Trigger floating points at match positions
+    setMatchPositions(newMatchPositions);
+    setFloatingPointsTrigger(true);
+    setTimeout(() => setFloatingPointsTrigger(false), 100);
+  };
 
-        if (newTimeRemaining <= 0) {
-          return {
-            ...prev,
-            timeRemaining: 0,
-            gameOver: true,
-          };
-        }
+  // Milliseconds of play so far
+  const getPlayTime = () => {
+    const { banked, since } = playClockRef.current;
+    return banked + Math.round(performance.now() - since);
+  };
 
-        return {
-          ...prev,
-          timeRemaining: newTimeRemaining,
-        };
-      });
-    }, 1000);
+  // The time a swap made now is stamped with: the time of play, but never
+  // closer than MIN_MOVE_INTERVAL_MS after the swap before
+  const getMoveTime = () => {
+    const { moves } = replayRef.current!;
+    const previous = moves[moves.length - 1];
+    return Math.max(getPlayTime(), previous ? previous.at + MIN_MOVE_INTERVAL_MS : 0);
+  };
 
-    return () => {
-      if (gameLoopRef.current) clearInterval(gameLoopRef.current);
-    };
-  }, [gameState?.gameOver, gameState?.levelComplete]);
+  // Ticks the level clock is owed by the given time of play: one per whole
+  // second, as a replay ticks them
+  const getDueTicks = (at: number) => {
+    const state = stateRef.current!;
+    if (state.timeRemaining === null) return 0;
+    const ticked = state.config.timeLimit! - state.timeRemaining;
+    return Math.min(Math.max(Math.floor(at / 1000) - ticked, 0), state.timeRemaining);
+  };
 
-  // Check for matches after board changes or when animation ends
-  useEffect(() => {
-    if (!gameState || gameState.isAnimating || gameState.gameOver || gameState.levelComplete)
-      return;
+  // Post a finished game's replay: campaign wins to the level's board, and the
+  // daily attempt (won or lost) to the day's. Play-tests, boosted games and
+  // campaign games the server didn't deal aren't ranked, and a server that
+  // can't be reached just means no rank.
+  const submitToLeaderboard = (state: GameState) => {
+    if (playtestLevel || state.boostersUsed > 0) return;
+    if (!isDaily && !attemptRef.current) return;
+    setLeaderboardRank(null);
+    const board = isDaily ? dailyBoard(dailyKey) : levelBoard(state.level);
+    const replay = { ...replayRef.current!, duration: Math.max(getPlayTime(), replayRef.current!.duration) };
+    submitScore(board, replay, attemptRef.current ?? undefined)
+      .then(response => setLeaderboardRank(response.rank))
+      .catch(() => {});
+  };
+
+  // Hand out earned boosters, and say what they were
+  const rewardBoosters = (boosters: BoosterType[], reason: string) => {
+    if (boosters.length === 0) return;
+    setInventory(awardBoosters(boosters));
+    const labels = boosters.map(booster => BOOSTER_LABELS[booster]).join(', ');
+    toast.success(`${reason}: ${labels}`);
+  };
 
-    matchCheckRef.current = setTimeout(() => {
-      // Check matches outside of setState to avoid side effects inside callback
-      const matchedIds = findMatches(gameState.board);
-      const matchGroups = findMatchPositions(gameState.board);
-
-      if (matchedIds.size > 0 && matchGroups.length > 0) {
-        // Clear pending swap since we have a valid match
-        pendingSwapRef.current = null;
-
-        // Increment combo counter
-        comboCountRef.current += 1;
-        const currentCombo = comboCountRef.current;
-        setComboCount(currentCombo);
-
-        // Calculate score for effects
-        const scoreGain = calculateScore(matchedIds.size);
-        const scorePerGroup = Math.floor(scoreGain / matchGroups.length);
-
-        // Calculate actual screen positions for each match group
-        const newParticlePositions: ParticlePosition[] = [];
-        const newMatchPositions: MatchPosition[] = [];
-
-        matchGroups.forEach((group, index) => {
-          // Get the center position of this match group in screen coordinates
-          const screenPos = gameBoardRef.current?.getPiecePosition(
-            Math.round(group.centerRow),
-            Math.round(group.centerCol)
-          );
-
-          if (screenPos) {
-            // Add particle burst position
-            newParticlePositions.push({
-              x: screenPos.x,
-              y: screenPos.y,
-            });
-
-            // Add floating points position with score
-            // Give bonus points for larger matches (4+ in a row)
-            const groupScore = group.pieceCount > 3 
-              ? Math.floor(scorePerGroup * (1 + (group.pieceCount - 3) * 0.3))
-              : scorePerGroup;
-            
-            newMatchPositions.push({
-              x: screenPos.x,
-              y: screenPos.y,
-              points: index === 0 ? scoreGain : groupScore, // Show total on first, individual on others
-            });
-          }
-        });
-
-        // Trigger particle effects at match positions
-        setParticlePositions(newParticlePositions);
-        setParticleTrigger(true);
-        setTimeout(() => setParticleTrigger(false), 100);
-
-        // Trigger floating points at match positions
-        setMatchPositions(newMatchPositions.length > 0 ? [newMatchPositions[0]] : []); // Show total score once
-        setFloatingPointsTrigger(true);
-        setTimeout(() => setFloatingPointsTrigger(false), 100);
-
-        // Play match sound
+  // Turn engine events into sounds and effects
+  const handleEvent = usePersistFn((event: GameEvent) => {
+    switch (event.type) {
+      case 'selected':
+        playSelect();
+        break;
+      case 'swapped':
+        replayRef.current = recordMove(replayRef.current!, event.move.from, event.move.to, actionTimeRef.current);
+        setShuffleByBooster(false);
+        playSelect();
+        break;
+      case 'boosterUsed': {
+        const next = spendBooster(event.booster);
+        if (next) setInventory(next);
+        setShuffleByBooster(event.booster === 'shuffle');
+        playSelect();
+        break;
+      }
+      case 'matched':
+        showMatchEffects(event.groups, event.groupScores);
+        setComboCount(event.combo);
         playMatch();
 
         // Trigger combo effect for cascades
-        if (currentCombo >= 2) {
+        if (event.combo >= 2) {
           setComboTrigger(true);
           setTimeout(() => setComboTrigger(false), 100);
           playCombo(); // Extra combo sound
         }
-
-        // Update game state with matches
-        setGameState(prev => {
-          if (!prev || prev.isAnimating) return prev;
-          return {
-            ...prev,
-            matchedPieces: matchedIds,
-            isAnimating: true,
-          };
-        });
-      } else {
-        // No matches found - reset combo counter
-        comboCountRef.current = 0;
-        setComboCount(0);
-      }
-      
-      if (pendingSwapRef.current && matchedIds.size === 0) {
-        // No match found after a swap - this is an invalid swap
-        // Get the piece IDs that were swapped
-        const { pos1, pos2, originalBoard } = pendingSwapRef.current;
-        const piece1Id = gameState.board[pos1.row][pos1.col].id;
-        const piece2Id = gameState.board[pos2.row][pos2.col].id;
-
-        // Play invalid sound
+        break;
+      case 'ingredientsCollected':
+        // Each ingredient gets its own burst where it left the board
+        showMatchEffects(
+          event.positions.map(({ row, col }) => ({
+            positions: [{ row, col }],
+            centerRow: row,
+            centerCol: col,
+            pieceCount: 1,
+            shape: 'line3',
+          })),
+          event.positions.map(() => event.scoreGain / event.positions.length)
+        );
+        playMatch();
+        break;
+      case 'invalidSwap':
         playInvalid();
-
-        // Show invalid swap animation
-        setInvalidSwapPieces(new Set([piece1Id, piece2Id]));
-
-        // After shake animation, swap back and decrease lives
-        setTimeout(() => {
-          setInvalidSwapPieces(new Set());
-          setGameState(prev => {
-            if (!prev) return prev;
-            const newLives = prev.lives - 1;
-            return {
-              ...prev,
-              board: originalBoard,
-              lives: newLives,
-              isAnimating: false,
-              gameOver: newLives <= 0,
-            };
-          });
-          pendingSwapRef.current = null;
-        }, 500);
+        break;
+      case 'blockedSwap': {
+        // Shake the locked or frozen piece so it's clear why nothing moved
+        const { row, col } = event.position;
+        setBlockedPieceId(stateRef.current!.board[row][col]!.id);
+        setTimeout(() => setBlockedPieceId(null), 500);
+        playInvalid();
+        break;
       }
-    }, 200);
+      case 'hint': {
+        const board = stateRef.current!.board;
+        const { from, to } = event.move;
+        setHintPieces(new Set([board[from.row][from.col]!.id, board[to.row][to.col]!.id]));
+        break;
+      }
+      case 'levelComplete': {
+        // Play-tests and daily challenges are scored but never saved over the campaign's progress
+        const state = stateRef.current!;
+        const stars = getStars(state);
+        const previousStars = getLevelRecord(loadProgress(), state.level)?.stars ?? 0;
+        const { isNewBest } = isCampaign
+          ? recordLevelResult(state.level, { stars, bestScore: state.score })
+          : { isNewBest: false };
+        setLevelResult({ stars, isNewBest });
+        if (isCampaign) rewardBoosters(getStarRewards(previousStars, stars), 'New stars earned');
+        if (isDaily) rewardBoosters(getDailyRewards(dailyKey, true), 'Daily reward');
+        submitToLeaderboard(state);
+        setShowLevelComplete(true);
+        playLevelComplete();
+        break;
+      }
+      case 'gameOver':
+        if (isDaily) {
+          submitToLeaderboard(stateRef.current!);
+          rewardBoosters(getDailyRewards(dailyKey, false), 'Daily reward');
+        }
+        setShowGameOver(true);
+        playGameOver();
+        break;
+    }
+  });
+
+  const dispatch = useCallback(
+    (action: GameAction) => {
+      if (!stateRef.current) return;
+      // A player's action first catches the level clock up to the time it's
+      // stamped with, so a replay ticks the same seconds before the same swap
+      const actions = [action];
+      if (action.type !== 'advance' && action.type !== 'tick') {
+        actionTimeRef.current = getMoveTime();
+        const dueTicks = getDueTicks(actionTimeRef.current);
+        actions.unshift(...Array.from({ length: dueTicks }, (): GameAction => ({ type: 'tick' })));
+      }
+      let state = stateRef.current;
+      const events: GameEvent[] = [];
+      for (const next of actions) {
+        const step = reduceGame(state, next);
+        state = step.state;
+        events.push(...step.events);
+      }
+      stateRef.current = state;
+      setGameState(state);
+      events.forEach(handleEvent);
+    },
+    [handleEvent]
+  );
 
-    return () => {
-      if (matchCheckRef.current) clearTimeout(matchCheckRef.current);
-    };
-  }, [gameState?.board, gameState?.isAnimating, playMatch, playCombo, playInvalid]);
+  // Let each animating phase play out, then advance the engine
+  useEffect(() => {
+    const duration = gameState ? getPhaseDuration(gameState) : undefined;
+    if (duration === undefined) return;
+
+    const timer = setTimeout(() => dispatch({ type: 'advance' }), duration);
+    return () => clearTimeout(timer);
+  }, [gameState?.phase, dispatch]);
 
-  // Remove matched pieces and apply gravity
+  // Game loop - timer countdown (untimed levels have no clock)
+  const isTimed = gameState ? gameState.timeRemaining !== null : false;
+  const isFinished = gameState?.phase === 'won' || gameState?.phase === 'lost';
   useEffect(() => {
-    if (!gameState || !gameState.isAnimating || gameState.matchedPieces.size === 0) return;
-
-    // Faster removal - 350ms to match the faster disappear animation
-    const timer = setTimeout(() => {
-      setGameState(prev => {
-        if (!prev) return prev;
-
-        const scoreGain = calculateScore(prev.matchedPieces.size);
-        const newBoard = removeMatchedAndApplyGravity(prev.board, prev.matchedPieces);
-        const newScore = prev.score + scoreGain;
-        const config = getLevelConfig(prev.level);
-
-        // Check if level is complete
-        if (isLevelComplete(newScore, config.targetScore, prev.lives)) {
-          return {
-            ...prev,
-            board: newBoard,
-            score: newScore,
-            matchedPieces: new Set(),
-            isAnimating: false,
-            levelComplete: true,
-          };
-        }
+    if (!isTimed || isFinished) return;
 
-        return {
-          ...prev,
-          board: newBoard,
-          score: newScore,
-          matchedPieces: new Set(),
-          isAnimating: false,
-        };
-      });
-    }, 350);
+    // Ticks follow the time of play, so a late timer doesn't slow the clock
+    const interval = setInterval(() => {
+      if (!stateRef.current) return;
+      for (let due = getDueTicks(getPlayTime()); due > 0; due--) dispatch({ type: 'tick' });
+    }, 100);
+    return () => clearInterval(interval);
+  }, [isTimed, isFinished, gameState?.level, dispatch]);
+
+  // Free hint after a stretch of inactivity - any board or selection change resets it
+  useEffect(() => {
+    setHintPieces(new Set());
+    if (!gameState || gameState.phase !== 'idle') return;
+
+    const { hintDelay } = gameState.config;
+    if (hintDelay <= 0) return;
 
+    const timer = setTimeout(() => dispatch({ type: 'hint', free: true }), hintDelay * 1000);
     return () => clearTimeout(timer);
-  }, [gameState?.isAnimating]);
+  }, [gameState?.board, gameState?.selectedPiece, gameState?.phase, dispatch]);
 
-  // Handle piece click
+  // Hint button - spends one of the level's hints
+  const handleHint = useCallback(() => dispatch({ type: 'hint' }), [dispatch]);
+
+  // Handle piece click - or, with the hammer or color swap out, pick its pieces
   const handlePieceClick = useCallback(
     (row: number, col: number) => {
-      if (!gameState || gameState.isAnimating || gameState.gameOver || gameState.levelComplete)
-        return;
-
-      const newSelectedPiece = { row, col };
-
-      // Play select sound
-      playSelect();
-
-      if (!gameState.selectedPiece) {
-        // Select first piece
-        setGameState(prev => ({
-          ...prev!,
-          selectedPiece: newSelectedPiece,
-        }));
-      } else if (
-        gameState.selectedPiece.row === row &&
-        gameState.selectedPiece.col === col
-      ) {
-        // Deselect piece
-        setGameState(prev => ({
-          ...prev!,
-          selectedPiece: null,
-        }));
-      } else if (areAdjacent(gameState.selectedPiece, newSelectedPiece)) {
-        // Store the original board before swapping (for potential swap-back)
-        pendingSwapRef.current = {
-          pos1: gameState.selectedPiece,
-          pos2: newSelectedPiece,
-          originalBoard: gameState.board.map(row => [...row]),
-        };
-
-        // Swap pieces
-        const newBoard = swapPieces(gameState.board, gameState.selectedPiece, newSelectedPiece);
-
-        setGameState(prev => ({
-          ...prev!,
-          board: newBoard,
-          selectedPiece: null,
-          moves: prev!.moves + 1,
-          isAnimating: true,
-        }));
-
-        // Reset animation flag after a short delay to allow match checking
-        setTimeout(() => {
-          setGameState(prev => ({
-            ...prev!,
-            isAnimating: false,
-          }));
-        }, 150);
+      const position = { row, col };
+      if (activeBooster === 'hammer') {
+        setActiveBooster(null);
+        dispatch({ type: 'booster', booster: 'hammer', position });
+      } else if (activeBooster === 'colorSwap') {
+        if (!colorSwapFrom) {
+          setColorSwapFrom(position);
+        } else if (colorSwapFrom.row === row && colorSwapFrom.col === col) {
+          setColorSwapFrom(null);
+        } else {
+          setActiveBooster(null);
+          setColorSwapFrom(null);
+          dispatch({ type: 'booster', booster: 'colorSwap', from: colorSwapFrom, to: position });
+        }
       } else {
-        // Select new piece
-        setGameState(prev => ({
-          ...prev!,
-          selectedPiece: newSelectedPiece,
-        }));
+        dispatch({ type: 'select', position });
       }
     },
-    [gameState, playSelect]
+    [activeBooster, colorSwapFrom, dispatch]
   );
 
-  // Handle swipe/drag swap
+  // Handle swipe/drag swap (not while a booster is waiting for its pieces)
   const handleSwap = useCallback(
     (from: { row: number; col: number }, to: { row: number; col: number }) => {
-      if (!gameState || gameState.isAnimating || gameState.gameOver || gameState.levelComplete)
-        return;
-
-      // Play select sound for feedback
-      playSelect();
-
-      // Store the original board before swapping (for potential swap-back)
-      pendingSwapRef.current = {
-        pos1: from,
-        pos2: to,
-        originalBoard: gameState.board.map(row => [...row]),
-      };
-
-      // Swap pieces
-      const newBoard = swapPieces(gameState.board, from, to);
-
-      setGameState(prev => ({
-        ...prev!,
-        board: newBoard,
-        selectedPiece: null,
-        moves: prev!.moves + 1,
-        isAnimating: true,
-      }));
-
-      // Reset animation flag after a short delay to allow match checking
-      setTimeout(() => {
-        setGameState(prev => ({
-          ...prev!,
-          isAnimating: false,
-        }));
-      }, 150);
+      if (!activeBooster) dispatch({ type: 'swap', from, to });
     },
-    [gameState, playSelect]
+    [activeBooster, dispatch]
   );
 
-  // Handle next level
+  // Shuffle and extra time go straight in; the hammer and color swap are
+  // picked up (or put back) to be aimed at the board
+  const handleBooster = (booster: BoosterType) => {
+    setColorSwapFrom(null);
+    if (activeBooster === booster) {
+      setActiveBooster(null);
+    } else if (booster === 'hammer' || booster === 'colorSwap') {
+      setActiveBooster(booster);
+    } else {
+      setActiveBooster(null);
+      dispatch({ type: 'booster', booster });
+    }
+  };
+
+  // Handle next level (a play-test goes back to the editor instead)
   const handleNextLevel = () => {
     setShowLevelComplete(false);
-    setLevel(prev => prev + 1);
+    if (isDaily) {
+      setLocation('/daily');
+      return;
+    }
+    if (playtestLevel) {
+      setLocation('/editor');
+      return;
+    }
+    setLocation(`/game/${level + 1}`);
   };
 
-  // Handle retry level - force reset by toggling level
+  // Handle retry level (the daily challenge has no retries - back to its results)
   const handleRetryLevel = () => {
     setShowLevelComplete(false);
     setShowGameOver(false);
-    // Force re-initialization by resetting game state directly
-    const config = getLevelConfig(level);
-    const newBoard = initializeBoard(config.gridSize);
-    setGameState({
-      board: newBoard,
-      score: 0,
-      lives: config.initialLives,
-      timeRemaining: config.timeLimit,
-      level,
-      moves: 0,
-      selectedPiece: null,
-      isAnimating: false,
-      gameOver: false,
-      levelComplete: false,
-      matchedPieces: new Set(),
-    });
+    if (isDaily) {
+      setLocation('/daily');
+      return;
+    }
+    startLevel(level);
   };
 
   // Handle home button
   const handleHome = () => {
     setShowGameOver(false);
-    setLocation('/');
+    setLocation(isDaily ? '/daily' : playtestLevel ? '/editor' : '/');
   };
 
-  // Show modals when game state changes
-  useEffect(() => {
-    if (gameState?.levelComplete) {
-      setShowLevelComplete(true);
-      playLevelComplete();
-    }
-  }, [gameState?.levelComplete, playLevelComplete]);
-
-  useEffect(() => {
-    if (gameState?.gameOver) {
-      setShowGameOver(true);
-      playGameOver();
-    }
-  }, [gameState?.gameOver, playGameOver]);
-
   if (!gameState) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-pink-200 via-purple-200 to-cyan-200 flex items-center justify-center">
@@ -436,11 +542,43 @@ export default function Game() {
         >
           🎮
         </motion.div>
+
+        <AlertDialog open={resumePrompt !== null}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle className="font-poppins">Resume your game?</AlertDialogTitle>
+              <AlertDialogDescription className="font-fredoka">
+                {resumePrompt &&
+                  `You left level ${resumePrompt.state.level} part-way through with ${resumePrompt.state.score.toLocaleString()} points.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={handleStartOver} className="font-fredoka">
+                Start over
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={handleResume} className="font-fredoka">
+                Resume
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     );
   }
 
-  const config = getLevelConfig(gameState.level);
+  const { config } = gameState;
+  const objectiveProgress = getObjectiveProgress(gameState);
+  const isAnimating = ANIMATING_PHASES.includes(gameState.phase);
+  // The swapped pair shakes while an invalid swap is undone, as does a
+  // blocked piece the player tried to move
+  const invalidSwapPieces = new Set<string>(
+    gameState.phase === 'reverting'
+      ? [gameState.pendingSwap!.from, gameState.pendingSwap!.to].map(
+          ({ row, col }) => gameState.board[row][col]!.id
+        )
+      : []
+  );
+  if (blockedPieceId) invalidSwapPieces.add(blockedPieceId);
 
   return (
     <div
@@ -471,7 +609,13 @@ export default function Game() {
           lives={gameState.lives}
           timeRemaining={gameState.timeRemaining}
           level={gameState.level}
+          title={isDaily ? 'Daily Challenge' : undefined}
           moves={gameState.moves}
+          movesRemaining={getMovesRemaining(config, gameState.moves)}
+          hintsRemaining={gameState.hintsRemaining}
+          objectives={config.objectives}
+          objectiveProgress={objectiveProgress}
+          onHint={handleHint}
         />
       </div>
 
@@ -480,15 +624,33 @@ export default function Game() {
         <GameBoard
           ref={gameBoardRef}
           board={gameState.board}
-          selectedPiece={gameState.selectedPiece}
+          jelly={config.jelly ? gameState.jelly : undefined}
+          selectedPiece={activeBooster === 'colorSwap' ? colorSwapFrom : gameState.selectedPiece}
           matchedPieces={gameState.matchedPieces}
           invalidSwapPieces={invalidSwapPieces}
+          hintPieces={hintPieces}
           onPieceClick={handlePieceClick}
           onSwap={handleSwap}
-          isAnimating={gameState.isAnimating}
+          isAnimating={isAnimating}
+          isShuffling={gameState.phase === 'shuffling'}
+          cascade={gameState.cascade}
+          cascadeStep={gameState.cascadeStep}
+          reservedHeight={isCampaign ? 200 : undefined}
         />
       </div>
 
+      {/* Boosters - campaign only: the daily board is the same for everyone */}
+      {isCampaign && (
+        <div className="flex-shrink-0 pt-1 pb-1 sm:pb-2">
+          <BoostersBar
+            inventory={inventory}
+            active={activeBooster}
+            canUse={booster => canUseBooster(gameState, booster)}
+            onSelect={handleBooster}
+          />
+        </div>
+      )}
+
       {/* Particle Effects at match positions */}
       <ParticleEffects 
         trigger={particleTrigger} 
@@ -504,6 +666,12 @@ export default function Game() {
         matchPositions={matchPositions}
       />
 
+      {/* Why the board is reshuffling: a dead board, or the shuffle booster */}
+      <ShuffleOverlay
+        isVisible={gameState.phase === 'shuffling'}
+        message={shuffleByBooster ? 'Shuffling!' : undefined}
+      />
+
       {/* Combo Effects */}
       <ComboEffects
         comboCount={comboCount}
@@ -514,8 +682,15 @@ export default function Game() {
       <LevelCompleteModal
         isOpen={showLevelComplete}
         level={gameState.level}
+        title={isDaily ? 'Daily Challenge Complete!' : undefined}
+        nextLabel={isDaily ? 'See Results' : playtestLevel ? 'Back to Editor' : undefined}
         score={gameState.score}
         targetScore={config.targetScore}
+        stars={levelResult.stars}
+        isNewBest={levelResult.isNewBest}
+        rank={leaderboardRank}
+        objectives={config.objectives}
+        objectiveProgress={objectiveProgress}
         onNextLevel={handleNextLevel}
         onRetry={handleRetryLevel}
       />
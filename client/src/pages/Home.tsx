@@ -4,18 +4,34 @@
  * - Vibrant, welcoming game start screen
  * - Playful animations and colorful design
  * - Fully responsive for mobile and desktop
+ * - Sign in / sign out in the corner
+ * - Auto-play demo of the solver at the bottom
  */
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { Play } from 'lucide-react';
+import { ManusDialog } from '@/components/ManusDialog';
+import AutoPlayDemo from '@/components/AutoPlayDemo';
+import { CalendarDays, LogIn, LogOut, Map as MapIcon, Play, Swords, UserRound } from 'lucide-react';
 import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+import { getHighestUnlockedLevel, loadProgress } from '@/lib/progress';
+import { loadSavedGame } from '@/lib/savegame';
 
 export default function Home() {
   const [, setLocation] = useLocation();
+  const [progress] = useState(loadProgress);
+  const [savedLevel] = useState(() => loadSavedGame()?.state.level);
+  const { user, loading: authLoading, login, logout } = useAuth();
+  const [showLogin, setShowLogin] = useState(false);
+  // Returning players pick up the level they left part-way through, or else
+  // the furthest level they've unlocked
+  const continueLevel = savedLevel ?? getHighestUnlockedLevel(progress);
+  const hasProgress = continueLevel > 1 || savedLevel !== undefined;
 
   const handleStartGame = () => {
-    setLocation('/game');
+    setLocation(`/game/${continueLevel}`);
   };
 
   return (
@@ -30,6 +46,26 @@ export default function Home() {
       {/* Dark overlay for better text visibility */}
       <div className="absolute inset-0 bg-black/20" />
 
+      {/* Account */}
+      {!authLoading && (
+        <div className="absolute top-3 right-3 z-20 flex items-center gap-2 bg-white/90 rounded-full pl-3 pr-1 py-1 shadow-lg font-fredoka text-sm">
+          {user ? (
+            <>
+              <UserRound className="w-4 h-4 text-primary" />
+              <span className="font-semibold max-w-[10rem] truncate">{user.name}</span>
+              <Button onClick={logout} variant="ghost" size="icon" className="rounded-full h-7 w-7" aria-label="Sign out">
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setShowLogin(true)} variant="ghost" className="rounded-full h-7 px-2 font-semibold">
+              <LogIn className="w-4 h-4" /> Sign in
+            </Button>
+          )}
+        </div>
+      )}
+      <ManusDialog title="Gumball Matcher" open={showLogin} onOpenChange={setShowLogin} onLogin={login} />
+
       <div className="relative z-10 max-w-2xl w-full text-center space-y-4 sm:space-y-6 md:space-y-8">
         {/* Header banner */}
         <motion.div
@@ -110,9 +146,54 @@ export default function Home() {
             }}
           >
             <Play className="w-5 h-5 sm:w-6 sm:h-6 md:w-7 md:h-7" />
-            Start Game
+            {hasProgress ? `Continue - Level ${continueLevel}` : 'Start Game'}
+          </Button>
+          <Button
+            onClick={() => setLocation('/levels')}
+            variant="outline"
+            className="w-full mt-2 sm:mt-3 bg-white/90 hover:bg-white text-primary font-fredoka font-bold text-base sm:text-lg py-4 sm:py-5 rounded-xl sm:rounded-2xl shadow-lg border-2 sm:border-4 border-white flex items-center justify-center gap-2 transition-all active:scale-95"
+            style={{
+              touchAction: 'manipulation',
+              WebkitTapHighlightColor: 'transparent',
+            }}
+          >
+            <MapIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+            Level Map
+          </Button>
+          <Button
+            onClick={() => setLocation('/daily')}
+            variant="outline"
+            className="w-full mt-2 sm:mt-3 bg-white/90 hover:bg-white text-primary font-fredoka font-bold text-base sm:text-lg py-4 sm:py-5 rounded-xl sm:rounded-2xl shadow-lg border-2 sm:border-4 border-white flex items-center justify-center gap-2 transition-all active:scale-95"
+            style={{
+              touchAction: 'manipulation',
+              WebkitTapHighlightColor: 'transparent',
+            }}
+          >
+            <CalendarDays className="w-5 h-5 sm:w-6 sm:h-6" />
+            Daily Challenge
+          </Button>
+          <Button
+            onClick={() => setLocation('/versus')}
+            variant="outline"
+            className="w-full mt-2 sm:mt-3 bg-white/90 hover:bg-white text-primary font-fredoka font-bold text-base sm:text-lg py-4 sm:py-5 rounded-xl sm:rounded-2xl shadow-lg border-2 sm:border-4 border-white flex items-center justify-center gap-2 transition-all active:scale-95"
+            style={{
+              touchAction: 'manipulation',
+              WebkitTapHighlightColor: 'transparent',
+            }}
+          >
+            <Swords className="w-5 h-5 sm:w-6 sm:h-6" />
+            Versus
           </Button>
         </motion.div>
+
+        {/* Solver demo */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45, duration: 0.4 }}
+        >
+          <AutoPlayDemo />
+        </motion.div>
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+/**
+ * Level Map Page
+ * Design Philosophy: Candy Pop Maximalism
+ * - Every level as a gumball stop on a winding candy trail
+ * - Locked levels are greyed out; beaten levels show their best stars
+ * - Always shows a few locked levels ahead so there's something to aim for
+ * - Leaderboards for the whole campaign and the furthest level reached
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useLocation } from 'wouter';
+import { Home, Lock, Star } from 'lucide-react';
+import LeaderboardPanel from '@/components/LeaderboardPanel';
+import StarRating from '@/components/StarRating';
+import { Button } from '@/components/ui/button';
+import { GLOBAL_BOARD, levelBoard } from '@/lib/leaderboard';
+import { AUTHORED_LEVELS } from '@shared/game/levels';
+import {
+  getHighestUnlockedLevel,
+  getLevelRecord,
+  getTotalStars,
+  isLevelUnlocked,
+  loadProgress,
+} from '@/lib/progress';
+
+// Locked levels shown past the furthest unlocked one
+const LOCKED_PREVIEW = 5;
+
+// Trail stops zig-zag across this many columns
+const TRAIL_OFFSETS = ['ml-0', 'ml-[25%]', 'ml-[50%]', 'ml-[25%]'];
+
+export default function Levels() {
+  const [, setLocation] = useLocation();
+  const [progress] = useState(loadProgress);
+  const highestUnlocked = getHighestUnlockedLevel(progress);
+  const lastAuthored = Math.max(...AUTHORED_LEVELS.map(def => def.level));
+  const levelCount = Math.max(lastAuthored, highestUnlocked + LOCKED_PREVIEW);
+  const levels = Array.from({ length: levelCount }, (_, i) => i + 1);
+
+  return (
+    <div
+      className="min-h-screen min-h-[100dvh] bg-gradient-to-b from-pink-200 via-purple-200 to-cyan-200 p-2 sm:p-4"
+      style={{
+        backgroundImage: `url('/images/game-background.png')`,
+        backgroundSize: 'cover',
+        backgroundAttachment: 'fixed',
+      }}
+    >
+      <div className="max-w-md mx-auto space-y-3">
+        {/* Header */}
+        <div className="flex items-center gap-2 bg-white/90 rounded-2xl p-2 sm:p-3 shadow-xl border-2 border-primary">
+          <Button
+            onClick={() => setLocation('/')}
+            variant="outline"
+            size="icon"
+            className="rounded-full border-2 border-primary"
+          >
+            <Home className="w-4 h-4 text-primary" />
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-poppins font-bold text-primary mr-auto">Level Map</h1>
+          <div className="flex items-center gap-1 font-fredoka font-bold text-amber-500">
+            <Star className="w-5 h-5 fill-amber-400 text-amber-400" />
+            {getTotalStars(progress)}
+          </div>
+        </div>
+
+        {/* Trail */}
+        <div className="bg-white/60 rounded-3xl p-4 shadow-xl space-y-2">
+          {levels.map((level, index) => {
+            const unlocked = isLevelUnlocked(progress, level);
+            const record = getLevelRecord(progress, level);
+            const isCurrent = level === highestUnlocked;
+            return (
+              <motion.div
+                key={level}
+                className={`w-1/2 ${TRAIL_OFFSETS[index % TRAIL_OFFSETS.length]}`}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index * 0.03, 0.6) }}
+              >
+                <button
+                  onClick={() => unlocked && setLocation(`/game/${level}`)}
+                  disabled={!unlocked}
+                  className="w-full flex flex-col items-center gap-1 disabled:cursor-not-allowed group"
+                >
+                  <div
+                    className={`relative w-16 h-16 sm:w-20 sm:h-20 rounded-full flex items-center justify-center border-4 shadow-lg transition-transform ${
+                      unlocked
+                        ? 'bg-gradient-to-br from-pink-400 via-fuchsia-500 to-purple-600 border-white group-hover:scale-110 group-active:scale-95'
+                        : 'bg-gradient-to-br from-gray-300 to-gray-400 border-gray-200'
+                    } ${isCurrent ? 'ring-4 ring-yellow-300 animate-pulse' : ''}`}
+                  >
+                    {unlocked ? (
+                      <span className="text-2xl sm:text-3xl font-poppins font-bold text-white drop-shadow">
+                        {level}
+                      </span>
+                    ) : (
+                      <Lock className="w-6 h-6 text-white" />
+                    )}
+                    {/* Gumball shine */}
+                    <div className="absolute top-[12%] left-[22%] w-[30%] h-[30%] rounded-full bg-white/40 pointer-events-none" />
+                  </div>
+                  {unlocked && <StarRating stars={record?.stars ?? 0} />}
+                </button>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <LeaderboardPanel
+          tabs={[
+            { board: GLOBAL_BOARD, label: 'All Levels' },
+            { board: levelBoard(highestUnlocked), label: `Level ${highestUnlocked}` },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+/**
+ * Versus Page
+ * Design Philosophy: Candy Pop Maximalism
+ * - Head-to-head against one other player on the same seeded board
+ * - Lobby to create a room (race or sprint) or join one by its code
+ * - Live mini-board and score for the opponent while you play
+ * - A dropped connection reconnects and rebuilds your board where it was
+ */
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useLocation } from 'wouter';
+import { Flag, Home, Loader2, LogIn, Swords, Timer, Trophy, WifiOff } from 'lucide-react';
+import GameBoard, { getPhaseDuration } from '@/components/GameBoard';
+import MiniBoard from '@/components/MiniBoard';
+import ShuffleOverlay from '@/components/ShuffleOverlay';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ANIMATING_PHASES,
+  GameAction,
+  GameEvent,
+  GameState,
+  createGameState,
+  isFinished,
+  reduceGame,
+} from '@shared/game/gameEngine';
+import { Move } from '@shared/game/gameLogic';
+import { applyMove } from '@shared/game/replay';
+import {
+  MATCH_DURATION_MS,
+  RACE_TARGET,
+  ROOM_CODE_LENGTH,
+  VersusMode,
+  VersusRoomView,
+  getVersusConfig,
+} from '@shared/versus';
+import { useVersus } from '@/hooks/useVersus';
+import { useSoundEffects } from '@/hooks/useSoundEffects';
+import { usePersistFn } from '@/hooks/usePersistFn';
+import { loadPlayer } from '@/lib/leaderboard';
+
+const MODES: { mode: VersusMode; title: string; description: string }[] = [
+  {
+    mode: 'race',
+    title: 'Race',
+    description: `First to ${RACE_TARGET.toLocaleString()} points`,
+  },
+  {
+    mode: 'sprint',
+    title: 'Sprint',
+    description: `Highest score in ${MATCH_DURATION_MS.sprint / 1000} seconds`,
+  },
+];
+
+// m:ss
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+// The board a match starts from, with the moves so far played onto it
+function rebuildGame(room: VersusRoomView, moves: Move[]): GameState {
+  let state = createGameState(getVersusConfig(room.mode), room.seed!);
+  for (const { from, to } of moves) {
+    const next = applyMove(state, from, to);
+    if (!next) break;
+    state = next;
+  }
+  return state;
+}
+
+export default function Versus() {
+  const [, setLocation] = useLocation();
+  const [player] = useState(loadPlayer);
+  const [joinCode, setJoinCode] = useState('');
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Latest engine state, so dispatch never works from a stale render
+  const stateRef = useRef<GameState | null>(null);
+  // The match the local board was dealt for
+  const seedRef = useRef<number | null>(null);
+
+  const { playMatch, playSelect, playCombo, playInvalid } = useSoundEffects();
+
+  const setGame = (state: GameState | null) => {
+    stateRef.current = state;
+    setGameState(state);
+  };
+
+  // Back from a dropped connection (or drifted out of step): replay our moves as the server has them
+  const handleResync = useCallback((room: VersusRoomView, moves: Move[]) => {
+    if (room.seed === null) return;
+    seedRef.current = room.seed;
+    setGame(rebuildGame(room, moves));
+  }, []);
+
+  const { room, connection, error, clockOffset, create, join, sendMove, leave } = useVersus({
+    onResync: handleResync,
+  });
+
+  // Deal a fresh board when a match starts, and clear it away on leaving the room
+  useEffect(() => {
+    const seed = room?.seed ?? null;
+    if (seed === seedRef.current) return;
+    seedRef.current = seed;
+    setGame(room && seed !== null ? createGameState(getVersusConfig(room.mode), seed) : null);
+  }, [room?.seed]);
+
+  // Keep the match clock moving
+  const isLive = room?.status === 'countdown' || room?.status === 'playing';
+  useEffect(() => {
+    if (!isLive) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isLive]);
+
+  // Swaps go to the server as they're made; its copy of the game is the one that counts
+  const handleEvent = usePersistFn((event: GameEvent) => {
+    switch (event.type) {
+      case 'selected':
+        playSelect();
+        break;
+      case 'swapped':
+        sendMove(event.move.from, event.move.to);
+        playSelect();
+        break;
+      case 'matched':
+        playMatch();
+        if (event.combo >= 2) playCombo();
+        break;
+      case 'invalidSwap':
+      case 'blockedSwap':
+        playInvalid();
+        break;
+    }
+  });
+
+  const dispatch = useCallback(
+    (action: GameAction) => {
+      if (!stateRef.current) return;
+      const { state, events } = reduceGame(stateRef.current, action);
+      setGame(state);
+      events.forEach(handleEvent);
+    },
+    [handleEvent]
+  );
+
+  // Let each animating phase play out, then advance the engine
+  useEffect(() => {
+    const duration = gameState ? getPhaseDuration(gameState) : undefined;
+    if (duration === undefined) return;
+
+    const timer = setTimeout(() => dispatch({ type: 'advance' }), duration);
+    return () => clearTimeout(timer);
+  }, [gameState?.phase, dispatch]);
+
+  const canPlay = room?.status === 'playing' && gameState !== null && !isFinished(gameState);
+
+  const handlePieceClick = useCallback(
+    (row: number, col: number) => {
+      if (canPlay) dispatch({ type: 'select', position: { row, col } });
+    },
+    [canPlay, dispatch]
+  );
+
+  const handleSwap = useCallback(
+    (from: { row: number; col: number }, to: { row: number; col: number }) => {
+      if (canPlay) dispatch({ type: 'swap', from, to });
+    },
+    [canPlay, dispatch]
+  );
+
+  const handleJoin = (event: FormEvent) => {
+    event.preventDefault();
+    if (joinCode.trim().length === ROOM_CODE_LENGTH) join(joinCode);
+  };
+
+  const handleHome = () => {
+    // Walking away from a match in progress concedes it
+    if (room) leave();
+    setLocation('/');
+  };
+
+  const serverNow = now + clockOffset;
+  const you = room ? room.players[room.you] : undefined;
+  const opponent = room ? room.players[1 - room.you] : undefined;
+
+  const renderLobby = () => (
+    <motion.div
+      className="bg-white/90 rounded-3xl p-5 shadow-xl border-2 border-primary text-center space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <p className="font-fredoka text-foreground leading-relaxed">
+        Two players, the same board. Start a room and share its code, or join a friend's.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {MODES.map(({ mode, title, description }) => (
+          <Button
+            key={mode}
+            onClick={() => create(mode)}
+            disabled={connection !== 'open'}
+            className="h-auto flex-col gap-1 bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-white font-fredoka rounded-2xl py-3 whitespace-normal"
+          >
+            <span className="text-lg font-bold">{title}</span>
+            <span className="text-xs font-semibold text-white/90">{description}</span>
+          </Button>
+        ))}
+      </div>
+      <form onSubmit={handleJoin} className="flex gap-2">
+        <Input
+          value={joinCode}
+          onChange={event => setJoinCode(event.target.value.toUpperCase())}
+          maxLength={ROOM_CODE_LENGTH}
+          placeholder="Room code"
+          aria-label="Room code"
+          className="font-fredoka font-bold tracking-[0.3em] text-center uppercase"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={connection !== 'open' || joinCode.trim().length !== ROOM_CODE_LENGTH}
+          className="font-fredoka font-bold border-2 border-primary text-primary"
+        >
+          <LogIn className="w-4 h-4" /> Join
+        </Button>
+      </form>
+      <p className="font-fredoka text-xs text-foreground/60">
+        Playing as <strong>{player.name}</strong>
+      </p>
+    </motion.div>
+  );
+
+  const renderWaiting = (room: VersusRoomView) => (
+    <motion.div
+      className="bg-white/90 rounded-3xl p-5 shadow-xl border-2 border-primary text-center space-y-3"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <p className="text-sm font-fredoka font-semibold text-purple-600 uppercase tracking-wider">Room code</p>
+      <p className="text-5xl font-poppins font-bold tracking-[0.2em] text-primary">{room.code}</p>
+      <p className="font-fredoka text-foreground/70 flex items-center justify-center gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" /> Waiting for an opponent...
+      </p>
+      <Button variant="outline" onClick={leave} className="font-fredoka font-bold border-2 border-primary text-primary">
+        Cancel
+      </Button>
+    </motion.div>
+  );
+
+  const renderResult = (room: VersusRoomView) => {
+    const outcome = room.winner === null ? 'Draw!' : room.winner === room.you ? 'You win!' : 'You lose';
+    return (
+      <motion.div
+        className="bg-white/90 rounded-3xl p-5 shadow-xl border-2 border-primary text-center space-y-3"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+      >
+        <Trophy className={`w-10 h-10 mx-auto ${room.winner === room.you ? 'text-amber-500' : 'text-foreground/30'}`} />
+        <p className="text-3xl font-poppins font-bold text-primary">{outcome}</p>
+        <p className="font-fredoka text-foreground">
+          <strong>{(you?.score ?? 0).toLocaleString()}</strong> - <strong>{(opponent?.score ?? 0).toLocaleString()}</strong>
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            onClick={leave}
+            className="bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-white font-fredoka font-bold rounded-2xl"
+          >
+            <Swords className="w-4 h-4" /> New Match
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleHome}
+            className="font-fredoka font-bold border-2 border-primary text-primary rounded-2xl"
+          >
+            <Home className="w-4 h-4" /> Home
+          </Button>
+        </div>
+      </motion.div>
+    );
+  };
+
+  const renderMatch = (room: VersusRoomView) => {
+    const countdown = room.status === 'countdown' && room.startsAt ? room.startsAt - serverNow : 0;
+    const remaining = room.endsAt ? room.endsAt - serverNow : 0;
+    // Your own score is shown from the local board, which is a step ahead of the server's
+    const score = gameState?.score ?? you?.score ?? 0;
+    return (
+      <>
+        {/* Scores and clock */}
+        <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 bg-white/90 rounded-2xl p-2 sm:p-3 shadow-xl border-2 border-primary font-fredoka">
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-foreground/60 truncate">{you?.name} (you)</p>
+            <p className="text-2xl font-poppins font-bold text-primary tabular-nums">{score.toLocaleString()}</p>
+          </div>
+          <div className="text-center">
+            <p className="flex items-center gap-1 font-bold text-lg tabular-nums">
+              <Timer className="w-4 h-4" /> {formatClock(remaining)}
+            </p>
+            {room.mode === 'race' && (
+              <p className="text-xs text-foreground/60">to {RACE_TARGET.toLocaleString()}</p>
+            )}
+          </div>
+          <div className="min-w-0 text-right">
+            <p className="text-xs font-semibold text-foreground/60 truncate flex items-center justify-end gap-1">
+              {opponent && !opponent.connected && <WifiOff className="w-3 h-3 text-rose-500" />}
+              {opponent?.name}
+            </p>
+            <p className="text-2xl font-poppins font-bold text-rose-500 tabular-nums">
+              {(opponent?.score ?? 0).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {/* Opponent's board */}
+        {opponent && (
+          <div className="flex items-center justify-center gap-3">
+            {opponent.board && <MiniBoard board={opponent.board} />}
+            <div className="font-fredoka text-xs text-foreground/70 space-y-1">
+              <p>Lives: {'❤️'.repeat(opponent.lives)}</p>
+              {opponent.out && <p className="font-bold text-rose-500">Out of moves</p>}
+              {!opponent.connected && <p className="font-bold text-rose-500">Reconnecting...</p>}
+            </div>
+          </div>
+        )}
+
+        {/* Your board */}
+        {gameState && (
+          <div className="relative flex justify-center">
+            <GameBoard
+              board={gameState.board}
+              selectedPiece={gameState.selectedPiece}
+              matchedPieces={gameState.matchedPieces}
+              onPieceClick={handlePieceClick}
+              onSwap={handleSwap}
+              isAnimating={!canPlay || ANIMATING_PHASES.includes(gameState.phase)}
+              isShuffling={gameState.phase === 'shuffling'}
+              cascade={gameState.cascade}
+              cascadeStep={gameState.cascadeStep}
+            />
+            {room.status === 'countdown' && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <motion.p
+                  key={Math.ceil(countdown / 1000)}
+                  initial={{ scale: 1.6, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  className="text-7xl font-poppins font-bold text-white drop-shadow-lg"
+                >
+                  {Math.max(Math.ceil(countdown / 1000), 1)}
+                </motion.p>
+              </div>
+            )}
+            {room.status === 'playing' && gameState && isFinished(gameState) && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <p className="bg-white/90 rounded-2xl px-4 py-2 font-fredoka font-bold text-primary shadow-lg">
+                  Waiting for {opponent?.name}...
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {room.status === 'playing' && (
+          <Button
+            variant="outline"
+            onClick={leave}
+            className="w-full font-fredoka font-bold bg-white/80 border-2 border-white text-rose-500"
+          >
+            <Flag className="w-4 h-4" /> Give Up
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div
+      className="min-h-screen min-h-[100dvh] bg-gradient-to-b from-pink-200 via-purple-200 to-cyan-200 p-2 sm:p-4"
+      style={{
+        backgroundImage: `url('/images/game-background.png')`,
+        backgroundSize: 'cover',
+        backgroundAttachment: 'fixed',
+        touchAction: 'manipulation', // Prevent double-tap zoom on mobile
+      }}
+    >
+      <div className="max-w-md mx-auto space-y-3">
+        {/* Header */}
+        <div className="flex items-center gap-2 bg-white/90 rounded-2xl p-2 sm:p-3 shadow-xl border-2 border-primary">
+          <Button
+            onClick={handleHome}
+            variant="outline"
+            size="icon"
+            className="rounded-full border-2 border-primary"
+          >
+            <Home className="w-4 h-4 text-primary" />
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-poppins font-bold text-primary mr-auto">Versus</h1>
+          {connection !== 'open' && (
+            <div className="flex items-center gap-1 font-fredoka text-sm text-foreground/70">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {connection === 'connecting' ? 'Connecting' : 'Reconnecting'}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <p className="bg-rose-100 text-rose-700 rounded-2xl p-3 font-fredoka text-sm text-center shadow-md">{error}</p>
+        )}
+
+        {!room && renderLobby()}
+        {room?.status === 'waiting' && renderWaiting(room)}
+        {room?.status === 'finished' && renderResult(room)}
+        {room && room.status !== 'waiting' && renderMatch(room)}
+      </div>
+
+      {gameState && <ShuffleOverlay isVisible={gameState.phase === 'shuffling'} />}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Solver Worker
+ * - Answers lib/solver's requests off the main thread, one at a time
+ */
+
+import { chooseMove } from '@shared/game/solver';
+import type { SolverRequest, SolverResponse } from '@/lib/solver';
+
+self.addEventListener('message', (event: MessageEvent<SolverRequest>) => {
+  const { id, board, rng, spawn, strategy } = event.data;
+  let response: SolverResponse;
+  try {
+    response = { id, choice: chooseMove(board, rng, strategy, spawn) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
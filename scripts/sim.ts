@@ -0,0 +1,144 @@
+/**
+ * Level difficulty simulator
+ *
+ *   pnpm sim --level 12 --runs 1000 --strategy greedy
+ *   pnpm sim --level 1-20 --runs 200 --json > report.json
+ *
+ * Plays each level headlessly with a solver bot and reports its pass rate,
+ * score spread, moves, dead boards and cascade depth. Runs use consecutive
+ * seeds from --seed (random unless given), so a report can be reproduced.
+ */
+
+import { parseArgs } from "util";
+import { loadLevelConfig } from "@shared/game/levels";
+import { LevelConfig } from "@shared/game/gameLogic";
+import { createSeed } from "@shared/game/random";
+import { DEFAULT_STRATEGIES, SolverStrategyType } from "@shared/game/solver";
+import { LevelReport, RunResult, simulateRun, summarizeRuns } from "@shared/game/simulate";
+
+const USAGE = `Usage: pnpm sim --level <n | from-to> [options]
+
+Options:
+  --level, -l      Level to simulate, or a range such as 1-20
+  --runs, -n       Games per level (default 100)
+  --strategy, -s   ${Object.keys(DEFAULT_STRATEGIES).join(" | ")} (default greedy)
+  --move-time      Seconds the bot takes per move, animations included (default 3)
+  --seed           First seed; run i uses seed + i (default random)
+  --json           Print the reports as JSON
+  --help, -h       Show this help`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseLevels(value: string | undefined): number[] {
+  const match = value?.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) fail("--level must be a level number or a range such as 1-20");
+  const from = Number(match[1]);
+  const to = Number(match[2] ?? match[1]);
+  if (from < 1 || to < from) fail(`Not a level range: ${value}`);
+  return Array.from({ length: to - from + 1 }, (_, index) => from + index);
+}
+
+function parsePositive(name: string, value: string, integer: boolean): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    fail(`--${name} must be a positive ${integer ? "whole " : ""}number`);
+  }
+  return number;
+}
+
+// Only the solver's own strategies, not names every object inherits
+function isStrategy(value: string): value is SolverStrategyType {
+  return Object.hasOwn(DEFAULT_STRATEGIES, value);
+}
+
+function parseStrategy(value: string): SolverStrategyType {
+  if (!isStrategy(value)) fail(`Unknown strategy "${value}"`);
+  return value;
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const points = (value: number) => Math.round(value).toLocaleString("en-US");
+
+function describeLevel(config: LevelConfig): string {
+  const parts = [`${config.rows}x${config.cols}`, `target ${points(config.targetScore)}`];
+  if (config.timeLimit !== undefined) parts.push(`${config.timeLimit}s`);
+  if (config.moveLimit !== undefined) parts.push(`${config.moveLimit} moves`);
+  if (config.objectives?.length) parts.push(config.objectives.map(objective => objective.type).join("+"));
+  return parts.join(" · ");
+}
+
+function printReport(report: LevelReport, config: LevelConfig): void {
+  const { score } = report;
+  console.log(`Level ${report.level} · ${describeLevel(config)}`);
+  console.log(`  pass rate      ${percent(report.passRate)}${report.passRate > 0 ? ` (${report.averageStars.toFixed(2)} stars per pass)` : ""}`);
+  console.log(
+    `  score          mean ${points(score.mean)} · p10 ${points(score.p10)} · median ${points(score.p50)} · p90 ${points(score.p90)} (${points(score.min)}-${points(score.max)})`
+  );
+  console.log(`  moves          ${report.averageMoves.toFixed(1)} per run`);
+  console.log(`  dead boards    ${report.deadBoardsPerRun.toFixed(2)} per run (${percent(report.deadBoardRunRate)} of runs)`);
+  console.log(`  cascade depth  ${report.averageCascadeDepth.toFixed(2)} per move (max ${report.maxCascadeDepth})`);
+  console.log();
+}
+
+function main(): void {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      options: {
+        level: { type: "string", short: "l" },
+        runs: { type: "string", short: "n", default: "100" },
+        strategy: { type: "string", short: "s", default: "greedy" },
+        "move-time": { type: "string", default: "3" },
+        seed: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  const { values } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const levels = parseLevels(values.level);
+  const runs = parsePositive("runs", values.runs, true);
+  const moveTime = parsePositive("move-time", values["move-time"], false);
+  const strategyName = parseStrategy(values.strategy);
+  const firstSeed = values.seed === undefined ? createSeed() : Number(values.seed);
+  if (!Number.isInteger(firstSeed)) fail("--seed must be a whole number");
+
+  // Progress goes to stderr, and only to a terminal, so piped output stays clean
+  const showProgress = process.stderr.isTTY && !values.json;
+  if (!values.json) {
+    console.log(`${runs} runs per level · ${strategyName} · ${moveTime}s per move · seeds from ${firstSeed}\n`);
+  }
+
+  const reports: LevelReport[] = [];
+  for (const level of levels) {
+    const config = loadLevelConfig(level);
+    const results: RunResult[] = [];
+    for (let run = 0; run < runs; run++) {
+      results.push(
+        simulateRun(config, (firstSeed + run) >>> 0, { strategy: DEFAULT_STRATEGIES[strategyName], moveTime })
+      );
+      if (showProgress) process.stderr.write(`\rLevel ${level}: ${run + 1}/${runs}`);
+    }
+    if (showProgress) process.stderr.write("\r\x1b[K");
+
+    const report = summarizeRuns(level, results);
+    reports.push(report);
+    if (!values.json) printReport(report, config);
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify({ strategy: strategyName, runs, moveTime, firstSeed, levels: reports }, null, 2));
+  }
+}
+
+main();
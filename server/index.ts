@@ -2,6 +2,11 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createLeaderboardRouter } from "./leaderboards";
+import { createLeaderboardStore } from "./leaderboardStore";
+import { createAuthRouter, createOAuthProvider } from "./oauth";
+import { getSessionSecret } from "./session";
+import { attachVersusServer } from "./versus";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,6 +21,11 @@ async function startServer() {
       ? path.resolve(__dirname, "public")
       : path.resolve(__dirname, "..", "dist", "public");
 
+  const sessionSecret = getSessionSecret();
+  app.use(createAuthRouter(createOAuthProvider(sessionSecret), sessionSecret));
+  app.use("/api/leaderboards", createLeaderboardRouter(await createLeaderboardStore(), sessionSecret));
+  attachVersusServer(server);
+
   app.use(express.static(staticPath));
 
   // Handle client-side routing - serve index.html for all routes
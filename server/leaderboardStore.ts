@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+
+export interface LeaderboardEntry {
+  playerId: string;
+  name: string;
+  score: number;
+  submittedAt: number;
+}
+
+// Persistence adapter for the leaderboards. Entries come back in rank order:
+// highest score first, and the earlier of two equal scores ahead.
+export interface LeaderboardStore {
+  getEntry(board: string, playerId: string): Promise<LeaderboardEntry | undefined>;
+  // Every board the player has an entry on whose name starts with the prefix
+  getPlayerEntries(playerId: string, boardPrefix: string): Promise<Map<string, LeaderboardEntry>>;
+  getPage(board: string, offset: number, limit: number): Promise<LeaderboardEntry[]>;
+  count(board: string): Promise<number>;
+  // Entries ranked ahead of the given score (submitted at the given time)
+  countAhead(board: string, score: number, submittedAt: number): Promise<number>;
+  // Insert or replace the player's entry on a board
+  putEntry(board: string, entry: LeaderboardEntry): Promise<void>;
+}
+
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score || a.submittedAt - b.submittedAt;
+}
+
+type Boards = Record<string, Record<string, LeaderboardEntry>>;
+
+// Keeps every board in memory. Used as is for tests and throwaway servers, and
+// as the working copy behind the JSON file store.
+export function createMemoryStore(
+  boards: Boards = {},
+  onChange: (boards: Boards) => Promise<void> = async () => {}
+): LeaderboardStore {
+  const ranked = (board: string) =>
+    Object.values(boards[board] ?? {}).sort(compareEntries);
+
+  return {
+    async getEntry(board, playerId) {
+      return boards[board]?.[playerId];
+    },
+    async getPlayerEntries(playerId, boardPrefix) {
+      const entries = new Map<string, LeaderboardEntry>();
+      for (const [board, players] of Object.entries(boards)) {
+        if (board.startsWith(boardPrefix) && players[playerId]) {
+          entries.set(board, players[playerId]);
+        }
+      }
+      return entries;
+    },
+    async getPage(board, offset, limit) {
+      return ranked(board).slice(offset, offset + limit);
+    },
+    async count(board) {
+      return Object.keys(boards[board] ?? {}).length;
+    },
+    async countAhead(board, score, submittedAt) {
+      return Object.values(boards[board] ?? {}).filter(
+        entry => compareEntries(entry, { playerId: "", name: "", score, submittedAt }) < 0
+      ).length;
+    },
+    async putEntry(board, entry) {
+      boards[board] = { ...boards[board], [entry.playerId]: entry };
+      await onChange(boards);
+    },
+  };
+}
+
+const STORE_FILE_VERSION = 1;
+
+const storeFileSchema = z.object({
+  version: z.literal(STORE_FILE_VERSION),
+  boards: z.record(
+    z.string(),
+    z.record(
+      z.string(),
+      z.object({
+        playerId: z.string(),
+        name: z.string(),
+        score: z.number(),
+        submittedAt: z.number(),
+      })
+    )
+  ),
+});
+
+// Default store: every board in one JSON file, rewritten after each change.
+// Writes go to a temporary file that is then renamed over the old one, so a
+// crash mid-write never leaves a half-written file behind.
+export async function createJsonFileStore(filePath: string): Promise<LeaderboardStore> {
+  let boards: Boards = {};
+  try {
+    const saved = storeFileSchema.safeParse(JSON.parse(await fs.readFile(filePath, "utf8")));
+    if (!saved.success) {
+      throw new Error(`Leaderboard file ${filePath} is not in the expected format`);
+    }
+    boards = saved.data.boards;
+  } catch (error) {
+    // A missing file is just an empty store; anything else needs looking at
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  // Writes are queued so two quick submissions can't interleave
+  let pending = Promise.resolve();
+  const persist = (current: Boards) => {
+    const write = async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify({ version: STORE_FILE_VERSION, boards: current }));
+      await fs.rename(tempPath, filePath);
+    };
+    pending = pending.then(write, write);
+    return pending;
+  };
+
+  return createMemoryStore(boards, persist);
+}
+
+// The store picked by LEADERBOARD_STORE ("file", the default, or "memory"); the
+// file lives at LEADERBOARD_FILE, or data/leaderboards.json under the working directory
+export async function createLeaderboardStore(): Promise<LeaderboardStore> {
+  const kind = process.env.LEADERBOARD_STORE || "file";
+  switch (kind) {
+    case "memory":
+      return createMemoryStore();
+    case "file":
+      return createJsonFileStore(
+        process.env.LEADERBOARD_FILE || path.resolve(process.cwd(), "data", "leaderboards.json")
+      );
+    default:
+      throw new Error(`Unknown LEADERBOARD_STORE "${kind}" (expected "file" or "memory")`);
+  }
+}
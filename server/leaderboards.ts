@@ -0,0 +1,303 @@
+import { randomBytes, randomInt } from "crypto";
+import express, { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  AttemptResponse,
+  BoardId,
+  GLOBAL_BOARD,
+  LeaderboardPage,
+  RankResponse,
+  RankedEntry,
+  SubmitScoreResponse,
+  attemptRequestSchema,
+  pageQuerySchema,
+  parseBoardId,
+  rankQuerySchema,
+  submitScoreSchema,
+} from "@shared/leaderboard";
+import { DAILY_CONFIG, getDailySeed } from "@shared/game/daily";
+import { LevelConfig } from "@shared/game/gameLogic";
+import { AUTHORED_LEVELS, loadLevelConfig } from "@shared/game/levels";
+import { GameReplay, replayGame } from "@shared/game/replay";
+import { LeaderboardEntry, LeaderboardStore } from "./leaderboardStore";
+import { signToken, verifyToken } from "./session";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Long enough for a saved game to be resumed the next day
+const ATTEMPT_TTL_MS = DAY_MS;
+
+// The ticket for one dealt level game: who it was dealt to, on which board,
+// and the seed they were given
+type AttemptPayload = {
+  kind: "attempt";
+  board: string;
+  playerId: string;
+  seed: number;
+  nonce: string;
+  exp: number;
+};
+
+// Express 4 doesn't catch rejected promises itself
+function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+function toRankedEntry(entry: LeaderboardEntry, rank: number, playerId?: string): RankedEntry {
+  return {
+    rank,
+    name: entry.name,
+    score: entry.score,
+    submittedAt: entry.submittedAt,
+    isYou: entry.playerId === playerId,
+  };
+}
+
+// Daily boards take scores for today, and for yesterday so a game finished just
+// after midnight (UTC) still counts
+function isOpenDailyBoard(day: string, now: number): boolean {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const yesterday = new Date(now - DAY_MS).toISOString().slice(0, 10);
+  return day === today || day === yesterday;
+}
+
+// Only the levels in levels.json are ranked; the procedural ones past them
+// aren't the same game from one release to the next
+function isRankedLevel(level: number): boolean {
+  return AUTHORED_LEVELS.some(authored => authored.level === level);
+}
+
+// Play a submitted game back to find the score it really earned. Level boards
+// only rank wins; a daily attempt counts however it ended, but only on the
+// day's own board.
+function scoreReplay(
+  boardId: Exclude<BoardId, { kind: "global" }>,
+  replay: GameReplay
+): { score: number } | { error: string } {
+  let config: LevelConfig;
+  if (boardId.kind === "level") {
+    if (replay.level !== boardId.level) return { error: "That game was played on another level" };
+    if (!isRankedLevel(boardId.level)) return { error: "That level has no leaderboard" };
+    config = loadLevelConfig(boardId.level);
+  } else {
+    if (replay.seed !== getDailySeed(boardId.day) || replay.level !== DAILY_CONFIG.level) {
+      return { error: "That game isn't this day's challenge" };
+    }
+    config = DAILY_CONFIG;
+  }
+
+  const result = replayGame(config, replay);
+  if (!result.ok) {
+    const at = result.moveIndex === undefined ? "" : ` (move ${result.moveIndex + 1})`;
+    return { error: `${result.error}${at}` };
+  }
+  const { phase, score } = result.state;
+  if (boardId.kind === "level" && phase !== "won") {
+    return { error: "That game didn't complete the level" };
+  }
+  if (phase !== "won" && phase !== "lost") return { error: "That game isn't over yet" };
+  return { score };
+}
+
+export function createLeaderboardRouter(store: LeaderboardStore, secret: string): express.Router {
+  const router = express.Router();
+  router.use(express.json({ limit: "64kb" })); // Room for a replay of the longest game
+
+  // Nonces of tickets whose game has been ranked, until the tickets expire.
+  // Kept in memory: a restart forgets them, but only within a day of their dealing.
+  const spentAttempts = new Map<string, number>();
+
+  // The ticket's payload, if it was dealt to this player for this board and
+  // hasn't been spent
+  const readAttempt = (token: string | undefined, board: string, playerId: string) => {
+    const payload = token ? verifyToken<AttemptPayload>(token, secret) : null;
+    if (payload?.kind !== "attempt" || payload.board !== board || payload.playerId !== playerId) return null;
+    return spentAttempts.has(payload.nonce) ? null : payload;
+  };
+
+  const spendAttempt = ({ nonce, exp }: AttemptPayload) => {
+    const now = Date.now();
+    spentAttempts.forEach((expires, spent) => {
+      if (expires <= now) spentAttempts.delete(spent);
+    });
+    spentAttempts.set(nonce, exp);
+  };
+
+  // Resolve :board, answering 404 for names that aren't a board
+  const withBoard = (
+    handler: (board: string, boardId: BoardId, req: Request, res: Response) => Promise<void>
+  ) =>
+    asyncHandler(async (req, res) => {
+      const board = req.params.board;
+      const boardId = parseBoardId(board);
+      if (!boardId) {
+        res.status(404).json({ error: `No leaderboard named "${board}"` });
+        return;
+      }
+      await handler(board, boardId, req, res);
+    });
+
+  const getRank = async (board: string, entry: LeaderboardEntry) =>
+    (await store.countAhead(board, entry.score, entry.submittedAt)) + 1;
+
+  // A player's global score is the sum of their best score on every level
+  const updateGlobalEntry = async (playerId: string, name: string, now: number) => {
+    const levelEntries = await store.getPlayerEntries(playerId, "level-");
+    const score = Array.from(levelEntries.values()).reduce((total, entry) => total + entry.score, 0);
+    await store.putEntry(GLOBAL_BOARD, { playerId, name, score, submittedAt: now });
+  };
+
+  router.get(
+    "/:board",
+    withBoard(async (board, _boardId, req, res) => {
+      const query = pageQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        res.status(400).json({ error: "Invalid page" });
+        return;
+      }
+      const { offset, limit, player } = query.data;
+      const [entries, total] = await Promise.all([
+        store.getPage(board, offset, limit),
+        store.count(board),
+      ]);
+      // Equal scores share the order they were submitted in, so ranks just count up
+      const page: LeaderboardPage = {
+        board,
+        total,
+        offset,
+        entries: entries.map((entry, index) => toRankedEntry(entry, offset + index + 1, player)),
+      };
+      res.json(page);
+    })
+  );
+
+  // Look up where a player stands, or where a score would place
+  router.get(
+    "/:board/rank",
+    withBoard(async (board, _boardId, req, res) => {
+      const query = rankQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        res.status(400).json({ error: "Give either a player or a score to rank" });
+        return;
+      }
+      const total = await store.count(board);
+      let response: RankResponse;
+      if ("player" in query.data) {
+        const entry = await store.getEntry(board, query.data.player);
+        const rank = entry ? await getRank(board, entry) : null;
+        response = {
+          board,
+          total,
+          rank,
+          entry: entry && rank ? toRankedEntry(entry, rank, query.data.player) : null,
+        };
+      } else {
+        const rank = (await store.countAhead(board, query.data.score, Date.now())) + 1;
+        response = { board, total, rank, entry: null };
+      }
+      res.json(response);
+    })
+  );
+
+  // Deal a level game: a fresh seed, and the ticket that lets its score be ranked
+  router.post(
+    "/:board/attempts",
+    withBoard(async (board, boardId, req, res) => {
+      if (boardId.kind !== "level") {
+        res.status(400).json({ error: "Only level boards deal games" });
+        return;
+      }
+      if (!isRankedLevel(boardId.level)) {
+        res.status(404).json({ error: `Level ${boardId.level} has no leaderboard` });
+        return;
+      }
+      const body = attemptRequestSchema.safeParse(req.body);
+      if (!body.success) {
+        res.status(400).json({ error: "Invalid player" });
+        return;
+      }
+      const payload: AttemptPayload = {
+        kind: "attempt",
+        board,
+        playerId: body.data.playerId,
+        seed: randomInt(2 ** 32),
+        nonce: randomBytes(16).toString("base64url"),
+        exp: Date.now() + ATTEMPT_TTL_MS,
+      };
+      const response: AttemptResponse = { board, seed: payload.seed, attempt: signToken(payload, secret) };
+      res.status(201).json(response);
+    })
+  );
+
+  router.post(
+    "/:board",
+    withBoard(async (board, boardId, req, res) => {
+      const body = submitScoreSchema.safeParse(req.body);
+      if (!body.success) {
+        res.status(400).json({ error: "Invalid score submission" });
+        return;
+      }
+      const { playerId, name, replay, attempt } = body.data;
+      const now = Date.now();
+      const previous = await store.getEntry(board, playerId);
+
+      if (boardId.kind === "global") {
+        res.status(400).json({ error: "The global board is totalled from the level boards" });
+        return;
+      }
+      if (boardId.kind === "daily") {
+        if (!isOpenDailyBoard(boardId.day, now)) {
+          res.status(403).json({ error: "That daily challenge is closed" });
+          return;
+        }
+        if (previous) {
+          res.status(409).json({ error: "Today's score has already been submitted" });
+          return;
+        }
+      }
+
+      // A level game has to be one the server dealt, played on the seed it was dealt
+      const dealt = boardId.kind === "level" ? readAttempt(attempt, board, playerId) : null;
+      if (boardId.kind === "level" && dealt?.seed !== replay.seed) {
+        res.status(403).json({ error: "That game wasn't dealt by this server, or was already ranked" });
+        return;
+      }
+
+      const replayed = scoreReplay(boardId, replay);
+      if ("error" in replayed) {
+        res.status(422).json({ error: replayed.error });
+        return;
+      }
+      const { score } = replayed;
+      if (dealt) spendAttempt(dealt);
+
+      // Level boards keep each player's best; a lower score leaves it as it was
+      const isNewBest = !previous || score > previous.score;
+      const entry: LeaderboardEntry = isNewBest ? { playerId, name, score, submittedAt: now } : previous;
+      if (isNewBest) {
+        await store.putEntry(board, entry);
+        if (boardId.kind === "level") await updateGlobalEntry(playerId, name, now);
+      }
+
+      const rank = await getRank(board, entry);
+      const response: SubmitScoreResponse = {
+        board,
+        rank,
+        isNewBest,
+        entry: toRankedEntry(entry, rank, playerId),
+      };
+      res.status(isNewBest ? 201 : 200).json(response);
+    })
+  );
+
+  // Answer in JSON, not Express's HTML error page (bad JSON bodies land here with a 400)
+  router.use((error: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+    const status = error.status ?? 500;
+    if (status >= 500) console.error("Leaderboard request failed:", error);
+    res.status(status).json({ error: status >= 500 ? "Something went wrong" : error.message });
+  });
+
+  return router;
+}
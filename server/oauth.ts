@@ -0,0 +1,239 @@
+import express, { Request } from "express";
+import { z } from "zod";
+import {
+  LOCAL_OAUTH_PORTAL_PATH,
+  MeResponse,
+  OAUTH_CALLBACK_PATH,
+  OAUTH_LOGIN_PATH,
+  SessionUser,
+} from "@shared/auth";
+import {
+  clearSessionCookie,
+  readSession,
+  setSessionCookie,
+  signToken,
+  startOAuthState,
+  takeOAuthState,
+  verifyToken,
+} from "./session";
+
+export interface OAuthProvider {
+  // Where to send the browser to sign in; the portal returns it to redirectUri with the state
+  getAuthorizeUrl(redirectUri: string, state: string): string;
+  // Trade the code the portal sent back for the user who signed in
+  exchangeCode(code: string, redirectUri: string): Promise<SessionUser>;
+  // Routes the provider serves itself, mounted at LOCAL_OAUTH_PORTAL_PATH
+  portal?: express.Router;
+}
+
+const tokenResponseSchema = z.object({ access_token: z.string() });
+
+const userInfoSchema = z
+  .object({
+    sub: z.string().optional(),
+    openId: z.string().optional(),
+    name: z.string().optional(),
+    email: z.string().optional(),
+  })
+  .refine(info => info.sub ?? info.openId, { error: "User info has no id" });
+
+// A standard OAuth 2 authorization-code provider: the browser signs in at the
+// portal, the code is traded at the token endpoint, and the access token read
+// back at the user-info endpoint
+export function createRemoteOAuthProvider(config: {
+  portalUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  clientId: string;
+  clientSecret: string;
+}): OAuthProvider {
+  return {
+    getAuthorizeUrl(redirectUri, state) {
+      const url = new URL(`${config.portalUrl}/app-auth`);
+      url.searchParams.set("appId", config.clientId);
+      url.searchParams.set("redirectUri", redirectUri);
+      url.searchParams.set("state", state);
+      url.searchParams.set("type", "signIn");
+      return url.toString();
+    },
+    async exchangeCode(code, redirectUri) {
+      const tokenResponse = await fetch(config.tokenUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+        }),
+      });
+      if (!tokenResponse.ok) throw new Error(`Token exchange failed (${tokenResponse.status})`);
+      const { access_token } = tokenResponseSchema.parse(await tokenResponse.json());
+
+      const userResponse = await fetch(config.userInfoUrl, {
+        headers: { Authorization: `Bearer ${access_token}`, Accept: "application/json" },
+      });
+      if (!userResponse.ok) throw new Error(`User info request failed (${userResponse.status})`);
+      const info = userInfoSchema.parse(await userResponse.json());
+      const openId = (info.openId ?? info.sub)!;
+      return { openId, name: info.name ?? info.email ?? openId, email: info.email };
+    },
+  };
+}
+
+// How long a code from the local portal can wait to be exchanged
+const LOCAL_CODE_TTL_MS = 60 * 1000;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Stand-in provider for working offline: the server hosts a tiny sign-in page
+// of its own that takes any name, and hands back a short-lived signed code
+export function createLocalOAuthProvider(secret: string): OAuthProvider {
+  const portal = express.Router();
+
+  // The page the client's login URL opens (<portal>/app-auth)
+  portal.get("/app-auth", (req, res) => {
+    const redirectUri = String(req.query.redirectUri ?? "");
+    const state = String(req.query.state ?? "");
+    res.type("html").send(`<!doctype html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Sign in (local)</title></head>
+  <body style="font-family: sans-serif; max-width: 20rem; margin: 4rem auto; text-align: center">
+    <h1>Local sign-in</h1>
+    <p>Stand-in for the real sign-in portal. Any name will do.</p>
+    <form action="${LOCAL_OAUTH_PORTAL_PATH}/authorize" method="get">
+      <input type="hidden" name="redirectUri" value="${escapeHtml(redirectUri)}">
+      <input type="hidden" name="state" value="${escapeHtml(state)}">
+      <p><input name="name" placeholder="Your name" maxlength="40" required autofocus></p>
+      <p><input name="email" type="email" placeholder="Email (optional)"></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`);
+  });
+
+  portal.get("/authorize", (req, res) => {
+    const redirectUri = getCallbackUri(req, String(req.query.redirectUri ?? ""));
+    const name = String(req.query.name ?? "").trim().slice(0, 40);
+    const email = String(req.query.email ?? "").trim() || undefined;
+    if (!redirectUri || !name) {
+      res.status(400).send("Missing name or redirect");
+      return;
+    }
+    const openId = `local:${name.toLowerCase()}`;
+    const code = signToken({ openId, name, email, kind: "code", exp: Date.now() + LOCAL_CODE_TTL_MS }, secret);
+    const callback = new URL(redirectUri);
+    callback.searchParams.set("code", code);
+    callback.searchParams.set("state", String(req.query.state ?? ""));
+    res.redirect(callback.toString());
+  });
+
+  return {
+    portal,
+    getAuthorizeUrl(redirectUri, state) {
+      return `${LOCAL_OAUTH_PORTAL_PATH}/app-auth?${new URLSearchParams({ redirectUri, state })}`;
+    },
+    async exchangeCode(code) {
+      const payload = verifyToken<SessionUser & { kind: string; exp: number }>(code, secret);
+      if (payload?.kind !== "code") throw new Error("Invalid or expired sign-in code");
+      return { openId: payload.openId, name: payload.name, email: payload.email };
+    },
+  };
+}
+
+// OAUTH_PROVIDER picks "remote" (OAUTH_PORTAL_URL, OAUTH_TOKEN_URL,
+// OAUTH_USERINFO_URL, OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET) or "local"; left unset, it's remote
+// when a token URL is configured and the local stand-in otherwise. The stand-in
+// lets anyone sign in as anyone, so production only uses it when asked to by name.
+export function createOAuthProvider(secret: string): OAuthProvider {
+  const kind = process.env.OAUTH_PROVIDER || (process.env.OAUTH_TOKEN_URL ? "remote" : "local");
+  if (kind === "local" && !process.env.OAUTH_PROVIDER && process.env.NODE_ENV === "production") {
+    throw new Error("Configure OAUTH_TOKEN_URL in production, or set OAUTH_PROVIDER=local to allow the stand-in portal");
+  }
+  switch (kind) {
+    case "remote": {
+      const { OAUTH_PORTAL_URL, OAUTH_TOKEN_URL, OAUTH_USERINFO_URL, OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET } =
+        process.env;
+      if (!OAUTH_PORTAL_URL || !OAUTH_TOKEN_URL || !OAUTH_USERINFO_URL || !OAUTH_CLIENT_ID) {
+        throw new Error("OAUTH_PORTAL_URL, OAUTH_TOKEN_URL, OAUTH_USERINFO_URL and OAUTH_CLIENT_ID must be set");
+      }
+      return createRemoteOAuthProvider({
+        portalUrl: OAUTH_PORTAL_URL,
+        tokenUrl: OAUTH_TOKEN_URL,
+        userInfoUrl: OAUTH_USERINFO_URL,
+        clientId: OAUTH_CLIENT_ID,
+        clientSecret: OAUTH_CLIENT_SECRET ?? "",
+      });
+    }
+    case "local":
+      console.log(`Using the local stand-in sign-in portal at ${LOCAL_OAUTH_PORTAL_PATH}`);
+      return createLocalOAuthProvider(secret);
+    default:
+      throw new Error(`Unknown OAUTH_PROVIDER "${kind}" (expected "remote" or "local")`);
+  }
+}
+
+// The callback URL a sign-in should return to, if it's this server's own -
+// anything else would let the flow be used to bounce users elsewhere
+function getCallbackUri(req: Request, redirectUri: string): string | null {
+  try {
+    const url = new URL(redirectUri);
+    return url.host === req.get("host") && url.pathname === OAUTH_CALLBACK_PATH ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createAuthRouter(provider: OAuthProvider, secret: string): express.Router {
+  const router = express.Router();
+
+  if (provider.portal) router.use(LOCAL_OAUTH_PORTAL_PATH, provider.portal);
+
+  // Sign-ins start here, so each one has a random state that only the browser
+  // starting it holds - a callback carrying any other state is turned away
+  router.get(OAUTH_LOGIN_PATH, (req, res) => {
+    const redirectUri = getCallbackUri(req, String(req.query.redirectUri ?? ""));
+    if (!redirectUri) {
+      res.status(400).send("Invalid sign-in redirect");
+      return;
+    }
+    const state = startOAuthState(res, redirectUri, secret);
+    res.redirect(provider.getAuthorizeUrl(redirectUri, state));
+  });
+
+  // The portal sends the browser back here with a code and the state it was given
+  router.get(OAUTH_CALLBACK_PATH, (req, res) => {
+    const code = typeof req.query.code === "string" ? req.query.code : "";
+    const state = typeof req.query.state === "string" ? req.query.state : "";
+    const redirectUri = takeOAuthState(req, res, state, secret);
+    if (!code || !redirectUri) {
+      res.status(400).send("Invalid sign-in response");
+      return;
+    }
+
+    provider
+      .exchangeCode(code, redirectUri)
+      .then(user => {
+        setSessionCookie(res, user, secret);
+        res.redirect("/");
+      })
+      .catch(error => {
+        console.error("Sign-in failed:", error);
+        res.status(502).send("Sign-in failed");
+      });
+  });
+
+  router.post("/api/oauth/logout", (_req, res) => {
+    clearSessionCookie(res);
+    res.status(204).end();
+  });
+
+  router.get("/api/me", (req, res) => {
+    const response: MeResponse = { user: readSession(req, secret) };
+    res.json(response);
+  });
+
+  return router;
+}
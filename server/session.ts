@@ -0,0 +1,118 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Request, Response } from "express";
+import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { OAUTH_CALLBACK_PATH, SessionUser } from "@shared/auth";
+
+// Signed tokens are "<base64url JSON payload>.<base64url HMAC-SHA256>". The
+// payload isn't secret, only tamper-proof, so it holds nothing but who the
+// player is and when the token runs out.
+export function signToken(payload: object, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", secret).update(body).digest("base64url");
+  return `${body}.${signature}`;
+}
+
+// The token's payload, or null if it was tampered with, is malformed or has expired
+export function verifyToken<T extends { exp: number }>(token: string, secret: string): T | null {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as T;
+    return typeof payload.exp === "number" && payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// SESSION_SECRET signs session cookies. Production refuses to start without it;
+// elsewhere a random one is made up, so sessions last until the server restarts.
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set - using a random one; sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of header?.split(";") ?? []) {
+    const index = part.indexOf("=");
+    if (index < 0) continue;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies.set(name, decodeURIComponent(part.slice(index + 1).trim()));
+    } catch {
+      // Ignore cookies we can't decode - they aren't ours
+    }
+  }
+  return cookies;
+}
+
+type SessionPayload = SessionUser & { kind: "session"; exp: number };
+
+export function readSession(req: Request, secret: string): SessionUser | null {
+  const token = parseCookies(req.headers.cookie).get(COOKIE_NAME);
+  const payload = token ? verifyToken<SessionPayload>(token, secret) : null;
+  if (payload?.kind !== "session") return null;
+  const { openId, name, email } = payload;
+  return { openId, name, email };
+}
+
+const cookieOptions = () => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+});
+
+export function setSessionCookie(res: Response, user: SessionUser, secret: string): void {
+  const payload: SessionPayload = { ...user, kind: "session", exp: Date.now() + ONE_YEAR_MS };
+  const token = signToken(payload, secret);
+  res.cookie(COOKIE_NAME, token, { ...cookieOptions(), maxAge: ONE_YEAR_MS });
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(COOKIE_NAME, cookieOptions());
+}
+
+// A sign-in in progress: the state the portal has to hand back, and where the
+// sign-in returns to. Only the callback ever reads it.
+const OAUTH_STATE_COOKIE = "oauthState";
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+type OAuthStatePayload = { kind: "oauthState"; nonce: string; redirectUri: string; exp: number };
+
+const oauthStateCookieOptions = () => ({ ...cookieOptions(), path: OAUTH_CALLBACK_PATH });
+
+// Start a sign-in from this browser; returns the state to send to the portal
+export function startOAuthState(res: Response, redirectUri: string, secret: string): string {
+  const nonce = randomBytes(16).toString("base64url");
+  const payload: OAuthStatePayload = { kind: "oauthState", nonce, redirectUri, exp: Date.now() + OAUTH_STATE_TTL_MS };
+  res.cookie(OAUTH_STATE_COOKIE, signToken(payload, secret), {
+    ...oauthStateCookieOptions(),
+    maxAge: OAUTH_STATE_TTL_MS,
+  });
+  return nonce;
+}
+
+// The redirect URI of the sign-in this browser started, if the portal handed
+// back its state - anything else is a sign-in someone else started. The state
+// is used up either way.
+export function takeOAuthState(req: Request, res: Response, state: string, secret: string): string | null {
+  const token = parseCookies(req.headers.cookie).get(OAUTH_STATE_COOKIE);
+  res.clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions());
+  const payload = token ? verifyToken<OAuthStatePayload>(token, secret) : null;
+  if (payload?.kind !== "oauthState") return null;
+
+  const given = Buffer.from(state);
+  const expected = Buffer.from(payload.nonce);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? payload.redirectUri : null;
+}
@@ -0,0 +1,306 @@
+import { randomInt } from "crypto";
+import { Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import { GameState, createGameState, isFinished } from "@shared/game/gameEngine";
+import { Move } from "@shared/game/gameLogic";
+import { applyMove } from "@shared/game/replay";
+import {
+  COUNTDOWN_MS,
+  MATCH_DURATION_MS,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  VERSUS_SOCKET_PATH,
+  VersusClientMessage,
+  VersusMode,
+  VersusRoomView,
+  VersusServerMessage,
+  VersusStatus,
+  clientMessageSchema,
+  getVersusConfig,
+} from "@shared/versus";
+
+// A room nobody is connected to is closed after this long
+const ABANDONED_ROOM_MS = 60 * 1000;
+// A finished room stays open this long for reconnecting players to see the result
+const FINISHED_ROOM_MS = 5 * 60 * 1000;
+// Connections that miss a heartbeat are dropped (and can reconnect)
+const HEARTBEAT_MS = 30 * 1000;
+// Client messages are a few hundred bytes; a socket sending more is dropped
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+interface Player {
+  playerId: string;
+  name: string;
+  socket: WebSocket | null;
+  game: GameState | null;
+  moves: Move[];
+}
+
+interface Room {
+  code: string;
+  mode: VersusMode;
+  status: VersusStatus;
+  players: Player[];
+  seed: number | null;
+  startsAt: number | null;
+  endsAt: number | null;
+  winner: number | null;
+  timers: NodeJS.Timeout[];
+  abandonTimer: NodeJS.Timeout | null;
+}
+
+function send(socket: WebSocket | null, message: VersusServerMessage): void {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// Out of lives, or (in a race) over the line - either way they've no more moves
+function isOut(player: Player): boolean {
+  return player.game !== null && isFinished(player.game);
+}
+
+function toRoomView(room: Room, you: number): VersusRoomView {
+  return {
+    code: room.code,
+    mode: room.mode,
+    status: room.status,
+    you,
+    players: room.players.map(player => ({
+      name: player.name,
+      connected: player.socket !== null,
+      score: player.game?.score ?? 0,
+      lives: player.game?.lives ?? 0,
+      out: isOut(player),
+      board: player.game?.board.map(line => line.map(piece => piece?.type ?? null)) ?? null,
+    })),
+    seed: room.seed,
+    startsAt: room.startsAt,
+    endsAt: room.endsAt,
+    serverNow: Date.now(),
+    winner: room.winner,
+  };
+}
+
+export function attachVersusServer(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: VERSUS_SOCKET_PATH, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Room>();
+  // Which room (and seat) each connection is in
+  const seats = new Map<WebSocket, { room: Room; player: Player }>();
+
+  const broadcast = (room: Room) => {
+    room.players.forEach((player, index) => send(player.socket, { type: "room", room: toRoomView(room, index) }));
+  };
+
+  // Anyone still seated is let go, so their connection can join another room
+  const closeRoom = (room: Room) => {
+    room.timers.forEach(clearTimeout);
+    if (room.abandonTimer) clearTimeout(room.abandonTimer);
+    rooms.delete(room.code);
+    room.players.forEach(player => {
+      if (!player.socket) return;
+      seats.delete(player.socket);
+      send(player.socket, { type: "left" });
+      player.socket = null;
+    });
+  };
+
+  const newRoomCode = () => {
+    let code: string;
+    do {
+      const letters = Array.from({ length: ROOM_CODE_LENGTH }, () => randomInt(ROOM_CODE_ALPHABET.length));
+      code = letters.map(index => ROOM_CODE_ALPHABET[index]).join("");
+    } while (rooms.has(code));
+    return code;
+  };
+
+  // A race is won by crossing the line; otherwise the higher score takes it
+  const finish = (room: Room, winner?: number) => {
+    if (room.status === "finished") return;
+    const [first, second] = room.players.map(player => player.game?.score ?? 0);
+    room.status = "finished";
+    room.winner = winner ?? (first === second ? null : first > second ? 0 : 1);
+    room.timers.forEach(clearTimeout);
+    room.timers = [setTimeout(() => closeRoom(room), FINISHED_ROOM_MS)];
+    broadcast(room);
+  };
+
+  // Both seats are filled: deal the same board to each, count down and go
+  const startMatch = (room: Room) => {
+    const now = Date.now();
+    room.seed = randomInt(2 ** 31);
+    room.status = "countdown";
+    room.startsAt = now + COUNTDOWN_MS;
+    room.endsAt = room.startsAt + MATCH_DURATION_MS[room.mode];
+    room.players.forEach(player => {
+      player.game = createGameState(getVersusConfig(room.mode), room.seed!);
+      player.moves = [];
+    });
+    room.timers = [
+      setTimeout(() => {
+        room.status = "playing";
+        broadcast(room);
+      }, COUNTDOWN_MS),
+      setTimeout(() => finish(room), room.endsAt - now),
+    ];
+    broadcast(room);
+  };
+
+  // Seat a connection in a room: a returning player takes their old seat back
+  const seat = (socket: WebSocket, room: Room, playerId: string, name: string) => {
+    let player = room.players.find(candidate => candidate.playerId === playerId);
+    if (player) {
+      if (player.socket && player.socket !== socket) {
+        seats.delete(player.socket);
+        player.socket.close(4000, "Joined from somewhere else");
+      }
+      player.socket = socket;
+    } else if (room.players.length < 2) {
+      player = { playerId, name, socket, game: null, moves: [] };
+      room.players.push(player);
+    } else {
+      send(socket, { type: "error", message: "That room is full" });
+      return;
+    }
+
+    seats.set(socket, { room, player });
+    if (room.abandonTimer) {
+      clearTimeout(room.abandonTimer);
+      room.abandonTimer = null;
+    }
+    if (room.status === "waiting" && room.players.length === 2) {
+      startMatch(room);
+      return;
+    }
+    broadcast(room);
+    // Back in a match already under way: rebuild their board from the moves we have
+    if (player.game) send(socket, { type: "resync", moves: player.moves });
+  };
+
+  const unseat = (socket: WebSocket) => {
+    const seated = seats.get(socket);
+    if (!seated) return;
+    seats.delete(socket);
+    const { room, player } = seated;
+    if (player.socket === socket) player.socket = null;
+    broadcast(room);
+    if (room.players.every(candidate => candidate.socket === null) && !room.abandonTimer) {
+      room.abandonTimer = setTimeout(() => closeRoom(room), ABANDONED_ROOM_MS);
+    }
+  };
+
+  const leave = (socket: WebSocket) => {
+    const seated = seats.get(socket);
+    if (!seated) return;
+    const { room, player } = seated;
+    unseat(socket);
+    // Walking out of a match concedes it; leaving an empty waiting room closes it
+    if (room.status === "countdown" || room.status === "playing") {
+      finish(room, room.players.findIndex(candidate => candidate !== player));
+    } else if (room.status === "waiting") {
+      closeRoom(room);
+    }
+    send(socket, { type: "left" });
+  };
+
+  const move = (socket: WebSocket, from: Move["from"], to: Move["to"]) => {
+    const seated = seats.get(socket);
+    if (!seated) return;
+    const { room, player } = seated;
+    if (room.status !== "playing" || !player.game || isOut(player)) return;
+
+    const next = applyMove(player.game, from, to);
+    if (!next) {
+      // The client's board has drifted from ours - put it back in step
+      send(socket, { type: "resync", moves: player.moves });
+      return;
+    }
+    player.game = next;
+    player.moves.push({ from, to });
+
+    if (next.phase === "won") {
+      finish(room, room.players.indexOf(player));
+    } else if (room.players.every(isOut)) {
+      finish(room);
+    } else {
+      broadcast(room);
+    }
+  };
+
+  const handleMessage = (socket: WebSocket, message: VersusClientMessage) => {
+    switch (message.type) {
+      case "create": {
+        if (seats.has(socket)) leave(socket);
+        const room: Room = {
+          code: newRoomCode(),
+          mode: message.mode,
+          status: "waiting",
+          players: [],
+          seed: null,
+          startsAt: null,
+          endsAt: null,
+          winner: null,
+          timers: [],
+          abandonTimer: null,
+        };
+        rooms.set(room.code, room);
+        seat(socket, room, message.playerId, message.name);
+        break;
+      }
+      case "join": {
+        const room = rooms.get(message.code);
+        if (!room) {
+          send(socket, { type: "error", message: `No room with the code ${message.code}` });
+          return;
+        }
+        const current = seats.get(socket);
+        if (current && current.room !== room) leave(socket);
+        seat(socket, room, message.playerId, message.name);
+        break;
+      }
+      case "move":
+        move(socket, message.from, message.to);
+        break;
+      case "leave":
+        leave(socket);
+        break;
+    }
+  };
+
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on("connection", socket => {
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+    socket.on("message", data => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        parsed = null;
+      }
+      const message = clientMessageSchema.safeParse(parsed);
+      if (!message.success) {
+        send(socket, { type: "error", message: "Invalid message" });
+        return;
+      }
+      handleMessage(socket, message.data);
+    });
+    socket.on("close", () => unseat(socket));
+    // An oversized or malformed frame: ws reports it here, and the socket goes
+    socket.on("error", () => socket.terminate());
+  });
+
+  // Drop connections that have gone quiet so their seats show as disconnected
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
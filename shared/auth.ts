@@ -0,0 +1,25 @@
+/**
+ * Auth API contract, shared by the server and the client
+ * - Signing in starts at /api/oauth/login, which sends the browser on to an
+ *   OAuth portal; the portal sends it back to /api/oauth/callback, and the
+ *   server then keeps the player in a signed session cookie (COOKIE_NAME)
+ */
+
+// GET ?redirectUri=<this origin's callback URL>
+export const OAUTH_LOGIN_PATH = "/api/oauth/login";
+
+export const OAUTH_CALLBACK_PATH = "/api/oauth/callback";
+
+// The stand-in portal the server hosts when no real OAuth provider is configured
+export const LOCAL_OAUTH_PORTAL_PATH = "/api/oauth/local";
+
+export interface SessionUser {
+  openId: string; // The provider's id for the user
+  name: string;
+  email?: string;
+}
+
+// GET /api/me
+export interface MeResponse {
+  user: SessionUser | null;
+}
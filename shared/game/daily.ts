@@ -0,0 +1,31 @@
+/**
+ * Daily Challenge Rules
+ * - One board per calendar day (UTC), the same for every player: the day names
+ *   the seed, and the seed fixes the board and every refill
+ */
+
+import { LevelConfig } from './gameLogic';
+import { seedFromString } from './random';
+
+// The same rules every day - only the board changes
+export const DAILY_CONFIG: LevelConfig = {
+  level: 1,
+  rows: 8,
+  cols: 8,
+  targetScore: 3000,
+  initialLives: 3,
+  moveLimit: 25,
+  hints: 1,
+  hintDelay: 0,
+  starThresholds: [0, 6, 12],
+  starMetric: 'movesLeft',
+};
+
+// Today's challenge, as YYYY-MM-DD in UTC so the day turns over for everyone at once
+export function getDailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailySeed(dayKey: string): number {
+  return seedFromString(`daily:${dayKey}`);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANIMATING_PHASES,
+  GameAction,
+  GameEvent,
+  GameState,
+  createGameState,
+  reduceGame,
+} from './gameEngine';
+import { Board, LevelConfig, findMatches } from './gameLogic';
+import { LAYOUT_CODES } from './levels';
+
+function makeBoard(rows: string[]): Board {
+  return rows.map((line, row) =>
+    line.split('').map((code, col) => (code === '#' ? null : { id: `${row}-${col}`, type: LAYOUT_CODES[code], row, col }))
+  );
+}
+
+// Swapping (0,2) and (1,2) lines up three reds on the top row; swapping
+// (4,0) and (4,1) matches nothing
+const BOARD = ['RRYBU', 'BURYP', 'YBPUR', 'UPBRY', 'PYUBR'];
+const MATCHING_SWAP = { from: { row: 0, col: 2 }, to: { row: 1, col: 2 } };
+const DUD_SWAP = { from: { row: 4, col: 0 }, to: { row: 4, col: 1 } };
+
+const CONFIG: LevelConfig = {
+  level: 1,
+  rows: 5,
+  cols: 5,
+  targetScore: 1_000_000,
+  initialLives: 3,
+  hints: 0,
+  hintDelay: 0,
+  colors: ['red', 'yellow', 'blue', 'pink', 'purple'],
+};
+
+function startGame(config: Partial<LevelConfig> = {}, board = BOARD): GameState {
+  return { ...createGameState({ ...CONFIG, ...config }, 1), board: makeBoard(board) };
+}
+
+// Dispatch an action, then advance through its animations as the UI would,
+// noting each phase passed through
+function play(state: GameState, action: GameAction) {
+  const phases: string[] = [];
+  const events: GameEvent[] = [];
+  let step = reduceGame(state, action);
+  events.push(...step.events);
+  phases.push(step.state.phase);
+  while (ANIMATING_PHASES.includes(step.state.phase)) {
+    step = reduceGame(step.state, { type: 'advance' });
+    events.push(...step.events);
+    phases.push(step.state.phase);
+  }
+  return { state: step.state, phases, events };
+}
+
+describe('reduceGame', () => {
+  it('starts idle on a board without matches', () => {
+    const state = createGameState(CONFIG, 42);
+    expect(state.phase).toBe('idle');
+    expect(findMatches(state.board).size).toBe(0);
+  });
+
+  it('resolves a matching swap through to idle', () => {
+    const { state, phases, events } = play(startGame(), { type: 'swap', ...MATCHING_SWAP });
+    expect(phases.slice(0, 3)).toEqual(['swapping', 'resolving', 'cascading']);
+    expect(state.phase).toBe('idle');
+    expect(state.moves).toBe(1);
+    expect(state.lives).toBe(3);
+    expect(state.score).toBeGreaterThan(0);
+    expect(findMatches(state.board).size).toBe(0);
+
+    const matched = events.filter(event => event.type === 'matched');
+    const gained = matched.reduce((sum, event) => sum + (event.type === 'matched' ? event.scoreGain : 0), 0);
+    expect(gained).toBe(state.score);
+  });
+
+  it('reverts a swap that matches nothing, for a life', () => {
+    const start = startGame();
+    const { state, phases } = play(start, { type: 'swap', ...DUD_SWAP });
+    expect(phases).toEqual(['swapping', 'reverting', 'idle']);
+    expect(state.board).toEqual(start.board);
+    expect(state.lives).toBe(2);
+  });
+
+  it('ignores swaps between pieces that are not neighbors', () => {
+    const start = startGame();
+    const step = reduceGame(start, { type: 'swap', from: { row: 0, col: 0 }, to: { row: 2, col: 2 } });
+    expect(step.state).toBe(start);
+    expect(step.events).toEqual([]);
+  });
+
+  it('ignores actions while a swap is animating', () => {
+    const swapping = reduceGame(startGame(), { type: 'swap', ...MATCHING_SWAP }).state;
+    expect(reduceGame(swapping, { type: 'swap', ...DUD_SWAP }).state).toBe(swapping);
+  });
+
+  it('wins once the target score is reached', () => {
+    const { state, events } = play(startGame({ targetScore: 1 }), { type: 'swap', ...MATCHING_SWAP });
+    expect(state.phase).toBe('won');
+    expect(events.some(event => event.type === 'levelComplete')).toBe(true);
+  });
+
+  it('loses when the last life goes on a bad swap', () => {
+    const { state, events } = play(startGame({ initialLives: 1 }), { type: 'swap', ...DUD_SWAP });
+    expect(state.phase).toBe('lost');
+    expect(state.lives).toBe(0);
+    expect(events.some(event => event.type === 'gameOver')).toBe(true);
+  });
+
+  it('loses when the last move falls short of the target', () => {
+    const { state } = play(startGame({ moveLimit: 1 }), { type: 'swap', ...MATCHING_SWAP });
+    expect(state.phase).toBe('lost');
+    expect(reduceGame(state, { type: 'swap', ...MATCHING_SWAP }).state).toBe(state);
+  });
+
+  it('loses when the clock runs out on a still board', () => {
+    let state = startGame({ timeLimit: 2 });
+    expect(state.timeRemaining).toBe(2);
+    state = reduceGame(state, { type: 'tick' }).state;
+    expect(state.phase).toBe('idle');
+    const step = reduceGame(state, { type: 'tick' });
+    expect(step.state.phase).toBe('lost');
+    expect(step.events).toEqual([{ type: 'gameOver' }]);
+  });
+
+  it('lets a cascade under way finish before the clock ends the level', () => {
+    let state = reduceGame(startGame({ timeLimit: 1 }), { type: 'swap', ...MATCHING_SWAP }).state;
+    state = reduceGame(state, { type: 'tick' }).state;
+    expect(state.phase).toBe('swapping');
+    expect(state.timeRemaining).toBe(0);
+    const { state: settled } = play(state, { type: 'advance' });
+    expect(settled.phase).toBe('lost');
+    expect(settled.score).toBeGreaterThan(0);
+  });
+
+  it('ends a board that no shuffle can give a move', () => {
+    // No two pieces are neighbors, so there is never a move
+    const dead = { ...startGame({}, ['R#Y#B', '#####', 'P#U#R', '#####', 'Y#B#P']), phase: 'shuffling' as const };
+    const step = reduceGame(dead, { type: 'advance' });
+    expect(step.state.phase).toBe('lost');
+    expect(step.events).toEqual([{ type: 'gameOver' }]);
+  });
+});
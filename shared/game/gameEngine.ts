@@ -0,0 +1,629 @@
+/**
+ * Match-Three Game Engine
+ * - Pure state machine: (state, action) -> (next state, events)
+ * - Explicit phases replace the old chain of effects and timeouts
+ * - No React, no timers: the UI decides how long each phase animates
+ *   and dispatches `advance` when it is done
+ */
+
+import {
+  Board,
+  CascadeEvent,
+  LevelConfig,
+  MatchGroup,
+  Move,
+  ObjectiveProgress,
+  PieceType,
+  Position,
+  SpecialCreation,
+  addIngredients,
+  areAdjacent,
+  calculateStars,
+  canSwap,
+  clearJelly,
+  countJelly,
+  expandSpecialActivations,
+  findArrivedIngredients,
+  findMatchPositions,
+  findMatches,
+  findSpecialCreations,
+  getIngredientCount,
+  getMovesRemaining,
+  getPieces,
+  getSpawnRules,
+  getSwapActivation,
+  hasPossibleMove,
+  initializeBoard,
+  isGameOver,
+  isLevelComplete,
+  isObjectiveComplete,
+  resolveCascade,
+  scoreMatchGroups,
+  shuffleBoard,
+  swapPieces,
+} from './gameLogic';
+import { findBestHint } from './hints';
+import { Rng, cloneRng, createRng } from './random';
+
+// - idle: waiting for the player
+// - swapping: two pieces are trading places
+// - reverting: the swap made no match and is being undone
+// - resolving: matched pieces are popping (or ingredients are being collected)
+// - cascading: survivors fall and new pieces drop in
+// - shuffling: the board had no legal move and is being rearranged
+// - won / lost: the level is over
+export type GamePhase =
+  | 'idle'
+  | 'swapping'
+  | 'reverting'
+  | 'resolving'
+  | 'cascading'
+  | 'shuffling'
+  | 'won'
+  | 'lost';
+
+export interface PendingSwap {
+  from: Position;
+  to: Position;
+  originalBoard: Board;
+  free?: boolean; // A color swap booster: the pieces needn't be neighbors, and no match is no penalty
+}
+
+// - hammer: smashes one piece, and whatever falls into the gap can match
+// - shuffle: rearranges the board
+// - extraTime: EXTRA_TIME_SECONDS more on the level clock
+// - colorSwap: swaps any two pieces, costing neither a move nor a life
+export type BoosterType = 'hammer' | 'shuffle' | 'extraTime' | 'colorSwap';
+
+export const BOOSTER_TYPES: BoosterType[] = ['hammer', 'shuffle', 'extraTime', 'colorSwap'];
+
+export const EXTRA_TIME_SECONDS = 15;
+
+export interface GameState {
+  phase: GamePhase;
+  config: LevelConfig;
+  board: Board;
+  jelly: number[][]; // Jelly layers left under each cell
+  collected: Partial<Record<PieceType, number>>; // Pieces cleared so far, by color
+  ingredientsCollected: number;
+  rng: Rng;
+  score: number;
+  lives: number;
+  timeRemaining: number | null; // null on untimed (move-limited) levels
+  level: number;
+  moves: number;
+  hintsRemaining: number;
+  boostersUsed: number; // A boosted game isn't ranked on the leaderboards
+  combo: number;
+  selectedPiece: Position | null;
+  pendingSwap: PendingSwap | null;
+  matchedPieces: Set<string>;
+  pendingScore: number; // What the clear under way adds to the score once it pops
+  specialCreations: SpecialCreation[];
+  cascade: CascadeEvent[]; // Timeline of the most recent clear, for animation
+  cascadeStep: number; // Increments with every clear so the UI can tell timelines apart
+}
+
+export type GameAction =
+  | { type: 'select'; position: Position }
+  | { type: 'swap'; from: Position; to: Position }
+  | { type: 'advance' } // The current phase's animation has finished
+  | { type: 'tick' } // One second of the level clock has passed
+  | { type: 'hint'; free?: boolean } // free hints (idle) don't spend the level's hints
+  | { type: 'booster'; booster: 'hammer'; position: Position }
+  | { type: 'booster'; booster: 'shuffle' | 'extraTime' }
+  | { type: 'booster'; booster: 'colorSwap'; from: Position; to: Position };
+
+export type GameEvent =
+  | { type: 'selected'; position: Position | null }
+  | { type: 'swapped'; move: Move }
+  | {
+      type: 'matched';
+      groups: MatchGroup[];
+      clearedIds: Set<string>;
+      groupScores: number[]; // What each group scored, in the order of groups
+      scoreGain: number;
+      combo: number;
+    }
+  | { type: 'cascaded'; timeline: CascadeEvent[] }
+  | { type: 'ingredientsCollected'; positions: Position[]; scoreGain: number }
+  | { type: 'invalidSwap'; pieceIds: string[] }
+  | { type: 'blockedSwap'; position: Position } // A locked or frozen piece can't move (free of charge)
+  | { type: 'lifeLost'; lives: number }
+  | { type: 'shuffled' }
+  | { type: 'hint'; move: Move }
+  | { type: 'boosterUsed'; booster: BoosterType }
+  | { type: 'levelComplete' }
+  | { type: 'gameOver' };
+
+export interface GameStep {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// Phases that are mid-animation and wait for an `advance`
+export const ANIMATING_PHASES: GamePhase[] = [
+  'swapping',
+  'reverting',
+  'resolving',
+  'cascading',
+  'shuffling',
+];
+
+export function isPlayable(state: GameState): boolean {
+  return state.phase === 'idle';
+}
+
+export function isFinished(state: GameState): boolean {
+  return state.phase === 'won' || state.phase === 'lost';
+}
+
+// Ingredients on the board at once - the rest drop in as these are collected
+const MAX_INGREDIENTS_ON_BOARD = 2;
+
+// Points for each ingredient brought down
+const INGREDIENT_SCORE = 500;
+
+// Fresh state for a level - a seed fully determines the board and refills
+export function createGameState(config: LevelConfig, seed: number): GameState {
+  const rng = createRng(seed);
+  const spawn = getSpawnRules(config);
+  let board = initializeBoard(config, rng, spawn, config.layout, config.blockers);
+  const ingredients = Math.min(getIngredientCount(config), MAX_INGREDIENTS_ON_BOARD);
+  if (ingredients > 0) {
+    board = addIngredients(board, rng, ingredients);
+  }
+  if (!hasPossibleMove(board)) {
+    board = shuffleBoard(board, rng, spawn);
+  }
+
+  return {
+    phase: 'idle',
+    config,
+    board,
+    jelly: config.jelly ?? board.map(line => line.map(() => 0)),
+    collected: {},
+    ingredientsCollected: 0,
+    rng,
+    score: 0,
+    lives: config.initialLives,
+    timeRemaining: config.timeLimit ?? null,
+    level: config.level,
+    moves: 0,
+    hintsRemaining: config.hints,
+    boostersUsed: 0,
+    combo: 0,
+    selectedPiece: null,
+    pendingSwap: null,
+    matchedPieces: new Set(),
+    pendingScore: 0,
+    specialCreations: [],
+    cascade: [],
+    cascadeStep: 0,
+  };
+}
+
+// Apply one action. Never mutates the given state (the RNG is copied before use).
+export function reduceGame(state: GameState, action: GameAction): GameStep {
+  switch (action.type) {
+    case 'select':
+      return selectPiece(state, action.position);
+    case 'swap':
+      return startSwap(state, action.from, action.to);
+    case 'advance':
+      return advance(state);
+    case 'tick':
+      return tick(state);
+    case 'hint':
+      return hint(state, action.free ?? false);
+    case 'booster':
+      return applyBooster(state, action);
+  }
+}
+
+const unchanged = (state: GameState): GameStep => ({ state, events: [] });
+
+function selectPiece(state: GameState, position: Position): GameStep {
+  if (!isPlayable(state)) return unchanged(state);
+
+  if (!state.board[position.row]?.[position.col]) return unchanged(state);
+
+  const selected = state.selectedPiece;
+  if (selected && areAdjacent(selected, position)) {
+    return startSwap(state, selected, position);
+  }
+
+  // Tapping the selected piece again deselects it, any other piece selects it
+  const isSame = selected?.row === position.row && selected?.col === position.col;
+  const selectedPiece = isSame ? null : position;
+  return {
+    state: { ...state, selectedPiece },
+    events: [{ type: 'selected', position: selectedPiece }],
+  };
+}
+
+function startSwap(state: GameState, from: Position, to: Position): GameStep {
+  if (!isPlayable(state) || !areAdjacent(from, to)) return unchanged(state);
+  if (!canSwap(state.board, from, to)) {
+    // Tell the player why nothing moved, without costing a life
+    const blocked = [from, to].find(p => state.board[p.row]?.[p.col]?.blocker);
+    return blocked
+      ? { state: { ...state, selectedPiece: null }, events: [{ type: 'blockedSwap', position: blocked }] }
+      : unchanged(state);
+  }
+
+  const movesRemaining = getMovesRemaining(state.config, state.moves);
+  if (movesRemaining !== null && movesRemaining <= 0) return unchanged(state);
+
+  return {
+    state: {
+      ...state,
+      phase: 'swapping',
+      board: swapPieces(state.board, from, to),
+      selectedPiece: null,
+      moves: state.moves + 1,
+      pendingSwap: { from, to, originalBoard: state.board },
+    },
+    events: [{ type: 'swapped', move: { from, to } }],
+  };
+}
+
+function advance(state: GameState): GameStep {
+  switch (state.phase) {
+    case 'swapping':
+      return evaluateSwap(state);
+    case 'reverting':
+      return revertSwap(state);
+    case 'resolving':
+      return clearMatches(state);
+    case 'cascading':
+      return checkCascade(state);
+    case 'shuffling':
+      return settle(state); // The clock may have run out while it shuffled
+    default:
+      return unchanged(state);
+  }
+}
+
+// The swap has animated: either it set something off or it gets undone
+function evaluateSwap(state: GameState): GameStep {
+  const { from, to } = state.pendingSwap!;
+  const swapActivation = getSwapActivation(state.board, from, to);
+  const cleared = findMatches(state.board);
+  swapActivation?.clearedIds.forEach(id => cleared.add(id));
+
+  if (cleared.size === 0 && state.pendingSwap!.free) {
+    // Nothing lined up, but a booster swap stays where it was put
+    return settle({ ...state, pendingSwap: null });
+  }
+
+  if (cleared.size === 0) {
+    return {
+      state: { ...state, phase: 'reverting' },
+      events: [
+        {
+          type: 'invalidSwap',
+          pieceIds: [state.board[from.row][from.col]!.id, state.board[to.row][to.col]!.id],
+        },
+      ],
+    };
+  }
+
+  return startResolving(state, cleared, swapActivation?.spentIds, [from, to]);
+}
+
+// An invalid swap costs a life and puts the pieces back
+function revertSwap(state: GameState): GameStep {
+  const lives = state.lives - 1;
+  const settled = settle({
+    ...state,
+    board: state.pendingSwap!.originalBoard,
+    pendingSwap: null,
+    lives,
+  });
+  return {
+    state: settled.state,
+    events: [{ type: 'lifeLost', lives }, ...settled.events],
+  };
+}
+
+function startResolving(
+  state: GameState,
+  cleared: Set<string>,
+  spentIds: Set<string> | undefined,
+  swappedPositions: Position[],
+  hammered?: Position
+): GameStep {
+  const rng = cloneRng(state.rng);
+
+  // Special candies caught in the match set off their own clears
+  const matchedIds = expandSpecialActivations(state.board, cleared, rng, spentIds);
+  const specialCreations = findSpecialCreations(state.board, swappedPositions);
+  const groups = findMatchPositions(state.board);
+
+  // A color bomb swap clears without a line match - center the effects on it
+  // (bombs are made from line5 matches, so they get line5 effects)
+  if (groups.length === 0 && state.pendingSwap) {
+    const { from, to } = state.pendingSwap;
+    groups.push({
+      positions: [from, to],
+      centerRow: (from.row + to.row) / 2,
+      centerCol: (from.col + to.col) / 2,
+      pieceCount: matchedIds.size,
+      shape: 'line5',
+    });
+  }
+  // Likewise a hammer blow, on the piece it hit
+  if (groups.length === 0 && hammered) {
+    groups.push({
+      positions: [hammered],
+      centerRow: hammered.row,
+      centerCol: hammered.col,
+      pieceCount: matchedIds.size,
+      shape: 'line3',
+    });
+  }
+
+  const combo = state.combo + 1;
+  const groupScores = scoreMatchGroups(groups, matchedIds.size);
+  const scoreGain = groupScores.reduce((sum, score) => sum + score, 0);
+  return {
+    state: {
+      ...state,
+      phase: 'resolving',
+      rng,
+      combo,
+      pendingSwap: null,
+      matchedPieces: matchedIds,
+      pendingScore: scoreGain,
+      specialCreations,
+    },
+    events: [
+      {
+        type: 'matched',
+        groups,
+        clearedIds: matchedIds,
+        groupScores,
+        scoreGain,
+        combo,
+      },
+    ],
+  };
+}
+
+// Ingredients still to drop in: enough to finish the objective, a few at a time
+function getIngredientsToDrop(state: GameState, board: Board): number {
+  const onBoard = getPieces(board).filter(p => p.ingredient).length;
+  const remaining = getIngredientCount(state.config) - state.ingredientsCollected - onBoard;
+  return Math.max(Math.min(remaining, MAX_INGREDIENTS_ON_BOARD - onBoard), 0);
+}
+
+// Matched pieces have popped: score them, drop the rest and refill
+function clearMatches(state: GameState): GameStep {
+  const rng = cloneRng(state.rng);
+  const cleared = getPieces(state.board).filter(p => state.matchedPieces.has(p.id));
+  const remaining = state.board.map(line =>
+    line.map(cell => (cell && state.matchedPieces.has(cell.id) && cell.ingredient ? null : cell))
+  );
+  const { board, timeline } = resolveCascade(
+    state.board,
+    state.matchedPieces,
+    rng,
+    state.specialCreations,
+    getSpawnRules(state.config),
+    getIngredientsToDrop(state, remaining)
+  );
+
+  // Count what actually left the board (locked and transformed pieces stay)
+  const clearedIds = new Set(timeline.flatMap(event => (event.type === 'cleared' ? event.ids : [])));
+  const collected = { ...state.collected };
+  let ingredientsCollected = state.ingredientsCollected;
+  cleared
+    .filter(piece => clearedIds.has(piece.id))
+    .forEach(piece => {
+      if (piece.ingredient) ingredientsCollected++;
+      else if (piece.special !== 'colorBomb') collected[piece.type] = (collected[piece.type] ?? 0) + 1;
+    });
+
+  // Only a match strips jelly - an ingredient leaving the board doesn't
+  const matchedIds = new Set(cleared.filter(piece => !piece.ingredient).map(piece => piece.id));
+
+  const score = state.score + state.pendingScore;
+  const next: GameState = {
+    ...state,
+    board,
+    jelly: clearJelly(state.jelly, state.board, matchedIds),
+    collected,
+    ingredientsCollected,
+    rng,
+    score,
+    matchedPieces: new Set(),
+    pendingScore: 0,
+    specialCreations: [],
+    cascade: timeline,
+    cascadeStep: state.cascadeStep + 1,
+  };
+  const cascaded: GameEvent = { type: 'cascaded', timeline };
+
+  if (isWon(next)) {
+    return { state: { ...next, phase: 'won' }, events: [cascaded, { type: 'levelComplete' }] };
+  }
+
+  return { state: { ...next, phase: 'cascading' }, events: [cascaded] };
+}
+
+// Where the player stands against the level's objectives
+export function getObjectiveProgress(state: GameState): ObjectiveProgress {
+  return {
+    score: state.score,
+    jellyRemaining: countJelly(state.jelly),
+    collected: state.collected,
+    ingredientsCollected: state.ingredientsCollected,
+  };
+}
+
+// Stars earned so far: none until the level is won
+export function getStars(state: GameState): number {
+  if (state.phase !== 'won') return 0;
+  return calculateStars(state.config, {
+    score: state.score,
+    timeRemaining: state.timeRemaining,
+    movesRemaining: getMovesRemaining(state.config, state.moves),
+  });
+}
+
+// Target score reached with every objective met (and a life to spare)
+function isWon(state: GameState): boolean {
+  const progress = getObjectiveProgress(state);
+  return (
+    isLevelComplete(state.score, state.config.targetScore, state.lives) &&
+    (state.config.objectives ?? []).every(objective => isObjectiveComplete(objective, progress))
+  );
+}
+
+// Pieces have landed: chain into another match, collect ingredients or settle
+function checkCascade(state: GameState): GameStep {
+  const cleared = findMatches(state.board);
+  if (cleared.size > 0) {
+    return startResolving(state, cleared, undefined, []);
+  }
+  const arrived = findArrivedIngredients(state.board);
+  if (arrived.size > 0) {
+    return collectIngredients(state, arrived);
+  }
+  return settle(state);
+}
+
+// Ingredients at the bottom leave the board like a match (without adding to
+// the combo), scoring a flat bonus each
+function collectIngredients(state: GameState, ingredientIds: Set<string>): GameStep {
+  const positions = getPieces(state.board)
+    .filter(piece => ingredientIds.has(piece.id))
+    .map(({ row, col }) => ({ row, col }));
+  const scoreGain = ingredientIds.size * INGREDIENT_SCORE;
+  return {
+    state: {
+      ...state,
+      phase: 'resolving',
+      matchedPieces: ingredientIds,
+      pendingScore: scoreGain,
+      specialCreations: [],
+    },
+    events: [{ type: 'ingredientsCollected', positions, scoreGain }],
+  };
+}
+
+// Board is still: the level may be lost, the board may be dead, or it's the player's turn
+function settle(state: GameState): GameStep {
+  const movesRemaining = getMovesRemaining(state.config, state.moves);
+  if (isGameOver(state.lives, state.timeRemaining, movesRemaining)) {
+    return { state: { ...state, phase: 'lost', combo: 0 }, events: [{ type: 'gameOver' }] };
+  }
+
+  if (!hasPossibleMove(state.board)) {
+    // A shuffle that still left no move means the board can't have one
+    if (state.phase === 'shuffling') {
+      return { state: { ...state, phase: 'lost', combo: 0 }, events: [{ type: 'gameOver' }] };
+    }
+    const rng = cloneRng(state.rng);
+    return {
+      state: {
+        ...state,
+        phase: 'shuffling',
+        board: shuffleBoard(state.board, rng, getSpawnRules(state.config)),
+        rng,
+        combo: 0,
+        selectedPiece: null,
+      },
+      events: [{ type: 'shuffled' }],
+    };
+  }
+
+  return { state: { ...state, phase: 'idle', combo: 0 }, events: [] };
+}
+
+// The level clock runs through animations too. Running out ends the level at
+// once on a still board; a cascade already under way gets to finish (and can
+// still win) before the level ends as the board settles. That also makes a
+// tick land the same way whether it came mid-cascade or just after, which is
+// what lets a recorded game be replayed exactly.
+function tick(state: GameState): GameStep {
+  if (state.timeRemaining === null || isFinished(state)) return unchanged(state);
+
+  const timeRemaining = Math.max(state.timeRemaining - 1, 0);
+  if (timeRemaining === 0 && isPlayable(state)) {
+    return {
+      state: { ...state, timeRemaining, phase: 'lost' },
+      events: [{ type: 'gameOver' }],
+    };
+  }
+
+  return { state: { ...state, timeRemaining }, events: [] };
+}
+
+function hint(state: GameState, free: boolean): GameStep {
+  if (!isPlayable(state) || (!free && state.hintsRemaining <= 0)) return unchanged(state);
+
+  const best = findBestHint(state.board, state.rng, getSpawnRules(state.config));
+  if (!best) return unchanged(state);
+
+  return {
+    state: free ? state : { ...state, hintsRemaining: state.hintsRemaining - 1 },
+    events: [{ type: 'hint', move: best.move }],
+  };
+}
+
+// Whether a booster can be used right now (extra time only on a timed level)
+export function canUseBooster(state: GameState, booster: BoosterType): boolean {
+  if (!isPlayable(state)) return false;
+  return booster !== 'extraTime' || state.timeRemaining !== null;
+}
+
+// Boosters are free: they cost neither a move nor a life, and what they clear
+// scores and cascades like any match
+function applyBooster(state: GameState, action: Extract<GameAction, { type: 'booster' }>): GameStep {
+  if (!canUseBooster(state, action.booster)) return unchanged(state);
+  const boosted: GameState = { ...state, selectedPiece: null, boostersUsed: state.boostersUsed + 1 };
+  const used: GameEvent = { type: 'boosterUsed', booster: action.booster };
+
+  switch (action.booster) {
+    case 'hammer': {
+      // Ingredients have to be brought down, not smashed
+      const piece = state.board[action.position.row]?.[action.position.col];
+      if (!piece || piece.ingredient) return unchanged(state);
+      const step = startResolving(boosted, new Set([piece.id]), undefined, [], action.position);
+      return { state: step.state, events: [used, ...step.events] };
+    }
+    case 'shuffle': {
+      const rng = cloneRng(state.rng);
+      return {
+        state: {
+          ...boosted,
+          phase: 'shuffling',
+          board: shuffleBoard(state.board, rng, getSpawnRules(state.config)),
+          rng,
+        },
+        events: [used, { type: 'shuffled' }],
+      };
+    }
+    case 'extraTime':
+      return {
+        state: { ...boosted, timeRemaining: state.timeRemaining! + EXTRA_TIME_SECONDS },
+        events: [used],
+      };
+    case 'colorSwap': {
+      const { from, to } = action;
+      const isSame = from.row === to.row && from.col === to.col;
+      if (isSame || !canSwap(state.board, from, to)) return unchanged(state);
+      return {
+        state: {
+          ...boosted,
+          phase: 'swapping',
+          board: swapPieces(state.board, from, to),
+          pendingSwap: { from, to, originalBoard: state.board, free: true },
+        },
+        events: [used],
+      };
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Board,
+  findMatchPositions,
+  findMatches,
+  getPieces,
+  hasPossibleMove,
+  shuffleBoard,
+} from './gameLogic';
+import { LAYOUT_CODES, loadLevelConfig } from './levels';
+import { createGameState } from './gameEngine';
+import { createRng } from './random';
+
+// A board from layout rows: a color code per cell, or '#' for a hole
+function makeBoard(rows: string[]): Board {
+  return rows.map((line, row) =>
+    line.split('').map((code, col) => (code === '#' ? null : { id: `${row}-${col}`, type: LAYOUT_CODES[code], row, col }))
+  );
+}
+
+describe('findMatchPositions', () => {
+  const shapeOf = (rows: string[]) => {
+    const groups = findMatchPositions(makeBoard(rows));
+    expect(groups).toHaveLength(1);
+    return { shape: groups[0].shape, pieceCount: groups[0].pieceCount };
+  };
+
+  it('tells straight runs apart by length', () => {
+    expect(shapeOf(['RRR'])).toEqual({ shape: 'line3', pieceCount: 3 });
+    expect(shapeOf(['RRRR'])).toEqual({ shape: 'line4', pieceCount: 4 });
+    expect(shapeOf(['RRRRR'])).toEqual({ shape: 'line5', pieceCount: 5 });
+    expect(shapeOf(['RRRRRR'])).toEqual({ shape: 'line5', pieceCount: 6 });
+  });
+
+  it('finds an L where two runs meet at their ends', () => {
+    expect(shapeOf(['R##', 'R##', 'RRR'])).toEqual({ shape: 'L', pieceCount: 5 });
+  });
+
+  it('finds a T where one run meets the middle of another', () => {
+    expect(shapeOf(['RRR', '#R#', '#R#'])).toEqual({ shape: 'T', pieceCount: 5 });
+  });
+
+  it('finds a cross where two runs meet in their middles', () => {
+    expect(shapeOf(['#R#', 'RRR', '#R#'])).toEqual({ shape: 'cross', pieceCount: 5 });
+  });
+
+  it('lets a run of five win over a crossing', () => {
+    expect(shapeOf(['##R##', 'RRRRR', '##R##'])).toEqual({ shape: 'line5', pieceCount: 7 });
+  });
+
+  it('keeps separate matches in separate groups', () => {
+    const groups = findMatchPositions(makeBoard(['RRR#YYY', '#######', 'BBBB###']));
+    expect(groups.map(group => group.shape).sort()).toEqual(['line3', 'line3', 'line4']);
+  });
+});
+
+describe('shuffleBoard', () => {
+  // Shipped levels with plain, masked, blocked and ingredient boards
+  const LEVELS = [1, 6, 8, 10];
+
+  it.each(LEVELS)('leaves level %i with a move and no matches', level => {
+    const config = loadLevelConfig(level);
+    for (let seed = 1; seed <= 25; seed++) {
+      const { board, rng } = createGameState(config, seed);
+      const shuffled = shuffleBoard(board, rng);
+      expect(findMatches(shuffled).size).toBe(0);
+      expect(hasPossibleMove(shuffled)).toBe(true);
+    }
+  });
+
+  it.each(LEVELS)('keeps blockers and ingredients in place on level %i', level => {
+    const config = loadLevelConfig(level);
+    const { board, rng } = createGameState(config, 7);
+    const shuffled = shuffleBoard(board, rng);
+    getPieces(board)
+      .filter(piece => piece.blocker || piece.ingredient)
+      .forEach(piece => expect(shuffled[piece.row][piece.col]).toEqual(piece));
+    // Holes stay holes
+    board.forEach((line, row) => line.forEach((cell, col) => expect(shuffled[row][col] === null).toBe(cell === null)));
+  });
+
+  it('hands back a board with no room for a move as it was', () => {
+    // No two pieces are neighbors, so no swap is ever possible
+    const board = makeBoard(['R#Y#B', '#####', 'P#U#R', '#####', 'Y#B#P']);
+    expect(shuffleBoard(board, createRng(1))).toBe(board);
+  });
+
+  it('recolors a board whose pieces cannot be rearranged into a move', () => {
+    // No color appears three times, so no arrangement can ever line three up
+    const board = makeBoard(['RYB', 'PUO', 'RYB']);
+    const shuffled = shuffleBoard(board, createRng(3));
+    expect(findMatches(shuffled).size).toBe(0);
+    expect(hasPossibleMove(shuffled)).toBe(true);
+    expect(getPieces(shuffled).map(piece => piece.id).sort()).toEqual(getPieces(board).map(piece => piece.id).sort());
+  });
+});
@@ -0,0 +1,1060 @@
+/**
+ * Match-Three Game Logic
+ * Design Philosophy: Candy Pop Maximalism
+ * - Vibrant, playful colors
+ * - Bouncy, elastic animations
+ * - Celebratory feedback for matches
+ * - Deterministic: all randomness comes from a seeded Rng
+ */
+
+import { Rng, nextPieceId, pickRandom, pickWeighted, randomInt } from './random';
+
+export type PieceType = 'red' | 'yellow' | 'blue' | 'pink' | 'purple' | 'orange';
+
+// Special candies created by big matches
+// - striped: clears its whole row or column
+// - wrapped: explodes the 3x3 area around it
+// - colorBomb: clears every piece of one color
+export type SpecialType = 'stripedHorizontal' | 'stripedVertical' | 'wrapped' | 'colorBomb';
+
+// Obstacles laid over a piece. Blocked pieces stay put and can't be swapped.
+// - lock: the piece still matches, but the match only breaks the lock
+// - ice: the piece is frozen and can't match; matches next to it (or blasts
+//   that reach it) crack one hit off, and the piece is freed at zero
+export type Blocker = { type: 'lock' } | { type: 'ice'; hits: number };
+
+export interface GamePiece {
+  id: string;
+  type: PieceType;
+  row: number;
+  col: number;
+  isMatched?: boolean;
+  special?: SpecialType;
+  blocker?: Blocker;
+  // An ingredient to bring down to the bottom of its column. It never matches
+  // and can't be blasted - only swapped and dropped. (Its type is meaningless.)
+  ingredient?: boolean;
+}
+
+// A board cell: a piece, or null where the level's mask leaves a hole
+export type BoardCell = GamePiece | null;
+export type Board = BoardCell[][];
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+// A special candy to be left behind at a position when its match is cleared
+export interface SpecialCreation {
+  row: number;
+  col: number;
+  special: SpecialType;
+}
+
+// A goal that must be met, on top of reaching the target score, to win a level
+// - score: reach a score (above the level's target)
+// - clearJelly: clear every layer of jelly off the board
+// - collect: clear a number of pieces of one color
+// - ingredients: bring a number of ingredients down to the bottom of the board
+export type LevelObjective =
+  | { type: 'score'; target: number }
+  | { type: 'clearJelly' }
+  | { type: 'collect'; color: PieceType; count: number }
+  | { type: 'ingredients'; count: number };
+
+// What the objectives are checked against
+export interface ObjectiveProgress {
+  score: number;
+  jellyRemaining: number;
+  collected: Partial<Record<PieceType, number>>; // Pieces cleared so far, by color
+  ingredientsCollected: number;
+}
+
+// What a level's star thresholds measure
+export type StarMetric = 'score' | 'timeLeft' | 'movesLeft';
+
+// Board dimensions, with an optional mask of playable cells
+export interface BoardShape {
+  rows: number;
+  cols: number;
+  mask?: boolean[][]; // false marks a hole; every cell is playable when omitted
+}
+
+export interface LevelConfig extends BoardShape {
+  level: number;
+  timeLimit?: number; // Seconds; omitted on untimed levels
+  targetScore: number;
+  initialLives: number;
+  moveLimit?: number; // Swaps allowed; omitted on unlimited levels
+  hints: number; // Hint button uses per level
+  hintDelay: number; // Seconds of inactivity before a free hint is shown (0 disables)
+  colors?: PieceType[]; // Colors that can spawn; all of them when omitted
+  spawnWeights?: Partial<Record<PieceType, number>>; // Relative spawn odds; even when omitted
+  starThresholds?: [number, number, number]; // One, two and three stars, in starMetric units
+  starMetric?: StarMetric; // What the thresholds measure; see getStarMetric when omitted
+  objectives?: LevelObjective[];
+  layout?: (PieceType | null)[][]; // Fixed starting pieces; null cells spawn randomly
+  jelly?: number[][]; // Jelly layers under each cell at the start (0 for none)
+  blockers?: (Blocker | null)[][]; // Blockers laid over the starting pieces
+}
+
+export const PIECE_TYPES: PieceType[] = ['red', 'yellow', 'blue', 'pink', 'purple', 'orange'];
+
+// Which colors new pieces are drawn from, and how often (weights are relative, default 1)
+export interface SpawnRules {
+  colors: PieceType[];
+  weights?: Partial<Record<PieceType, number>>;
+}
+
+export const DEFAULT_SPAWN_RULES: SpawnRules = { colors: PIECE_TYPES };
+
+export function getSpawnRules(config: LevelConfig): SpawnRules {
+  return { colors: config.colors ?? PIECE_TYPES, weights: config.spawnWeights };
+}
+
+// Generate random piece
+export function generateRandomPiece(
+  rng: Rng,
+  row: number,
+  col: number,
+  excludeTypes: PieceType[] = [],
+  spawn: SpawnRules = DEFAULT_SPAWN_RULES
+): GamePiece {
+  const availableTypes = spawn.colors.filter(t => !excludeTypes.includes(t));
+  const types = availableTypes.length > 0 ? availableTypes : spawn.colors;
+  const type = spawn.weights
+    ? pickWeighted(rng, types, types.map(t => spawn.weights![t] ?? 1))
+    : pickRandom(rng, types);
+  return {
+    id: nextPieceId(rng),
+    type,
+    row,
+    col,
+  };
+}
+
+// Initialize game board without any pre-existing matches
+// Fixed layout pieces are placed first, then the remaining cells are filled
+// around them (the layout itself must not contain a match). Masked cells stay holes.
+export function initializeBoard(
+  shape: BoardShape,
+  rng: Rng,
+  spawn: SpawnRules = DEFAULT_SPAWN_RULES,
+  layout?: (PieceType | null)[][],
+  blockers?: (Blocker | null)[][]
+): Board {
+  const { rows, cols, mask } = shape;
+  const board: Board = [];
+
+  for (let row = 0; row < rows; row++) {
+    board[row] = [];
+    for (let col = 0; col < cols; col++) {
+      const type = mask?.[row]?.[col] === false ? null : layout?.[row]?.[col];
+      board[row][col] = type ? { id: nextPieceId(rng), type, row, col } : null;
+    }
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (!board[row][col] && mask?.[row]?.[col] !== false) {
+        const forbiddenTypes = getForbiddenTypes(board, row, col);
+        board[row][col] = generateRandomPiece(rng, row, col, forbiddenTypes, spawn);
+      }
+    }
+  }
+
+  // Blockers go on last so they never change which colors were picked
+  blockers?.forEach((line, row) =>
+    line.forEach((blocker, col) => {
+      const piece = board[row]?.[col];
+      if (blocker && piece) board[row][col] = { ...piece, blocker };
+    })
+  );
+
+  return board;
+}
+
+// Every piece on the board, skipping holes
+export function getPieces(board: Board): GamePiece[] {
+  return board.flat().filter((cell): cell is GamePiece => cell !== null);
+}
+
+// Check if two pieces are adjacent
+export function areAdjacent(
+  pos1: { row: number; col: number },
+  pos2: { row: number; col: number }
+): boolean {
+  const rowDiff = Math.abs(pos1.row - pos2.row);
+  const colDiff = Math.abs(pos1.col - pos2.col);
+  return (rowDiff === 1 && colDiff === 0) || (rowDiff === 0 && colDiff === 1);
+}
+
+// Swap two pieces
+export function swapPieces(
+  board: Board,
+  pos1: { row: number; col: number },
+  pos2: { row: number; col: number }
+): Board {
+  const newBoard = board.map(row => [...row]);
+  const piece1 = board[pos1.row][pos1.col];
+  const piece2 = board[pos2.row][pos2.col];
+
+  // Copy the pieces with updated positions so the original board stays intact
+  newBoard[pos1.row][pos1.col] = piece2 && { ...piece2, row: pos1.row, col: pos1.col };
+  newBoard[pos2.row][pos2.col] = piece1 && { ...piece1, row: pos2.row, col: pos2.col };
+
+  return newBoard;
+}
+
+export interface Move {
+  from: Position;
+  to: Position;
+}
+
+// Both cells hold pieces free to move (no holes, locks or ice)
+export function canSwap(board: Board, from: Position, to: Position): boolean {
+  const piece1 = board[from.row]?.[from.col];
+  const piece2 = board[to.row]?.[to.col];
+  return !!piece1 && !!piece2 && !piece1.blocker && !piece2.blocker;
+}
+
+// A swap is legal if it lines up a match or sets off a color bomb
+export function isValidSwap(board: Board, from: Position, to: Position): boolean {
+  if (!canSwap(board, from, to)) return false;
+  if (getSwapActivation(board, from, to)) return true;
+  return findMatches(swapPieces(board, from, to)).size > 0;
+}
+
+// Every legal swap on the board (each pair listed once, right/down from `from`)
+export function findAllPossibleMoves(board: Board): Move[] {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const moves: Move[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const from = { row, col };
+      if (col + 1 < cols && isValidSwap(board, from, { row, col: col + 1 })) {
+        moves.push({ from, to: { row, col: col + 1 } });
+      }
+      if (row + 1 < rows && isValidSwap(board, from, { row: row + 1, col })) {
+        moves.push({ from, to: { row: row + 1, col } });
+      }
+    }
+  }
+
+  return moves;
+}
+
+// Check if any legal swap remains (stops at the first one found)
+export function hasPossibleMove(board: Board): boolean {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const from = { row, col };
+      if (col + 1 < cols && isValidSwap(board, from, { row, col: col + 1 })) return true;
+      if (row + 1 < rows && isValidSwap(board, from, { row: row + 1, col })) return true;
+    }
+  }
+
+  return false;
+}
+
+// Color bombs and ingredients have no color of their own, and frozen pieces are
+// sealed in ice, so none of them ever match by type
+function isSameMatchType(a: GamePiece, b: GamePiece): boolean {
+  const canMatch = (p: GamePiece) =>
+    p.special !== 'colorBomb' && !p.ingredient && p.blocker?.type !== 'ice';
+  return canMatch(a) && canMatch(b) && a.type === b.type;
+}
+
+// Two cells that hold matching pieces (a hole breaks any line)
+function cellsMatch(a: BoardCell, b: BoardCell): boolean {
+  return a !== null && b !== null && isSameMatchType(a, b);
+}
+
+// Find matches in a line (horizontal or vertical)
+export function findMatches(board: Board): Set<string> {
+  const matched = new Set<string>();
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+
+  // Check horizontal matches
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols - 2; col++) {
+      const current = board[row][col];
+      const next1 = board[row][col + 1];
+      const next2 = board[row][col + 2];
+
+      if (
+        current && next1 && next2 &&
+        isSameMatchType(current, next1) && isSameMatchType(next1, next2)
+      ) {
+        matched.add(current.id);
+        matched.add(next1.id);
+        matched.add(next2.id);
+      }
+    }
+  }
+
+  // Check vertical matches
+  for (let col = 0; col < cols; col++) {
+    for (let row = 0; row < rows - 2; row++) {
+      const current = board[row][col];
+      const next1 = board[row + 1][col];
+      const next2 = board[row + 2][col];
+
+      if (
+        current && next1 && next2 &&
+        isSameMatchType(current, next1) && isSameMatchType(next1, next2)
+      ) {
+        matched.add(current.id);
+        matched.add(next1.id);
+        matched.add(next2.id);
+      }
+    }
+  }
+
+  return matched;
+}
+
+// Shape of a connected match group
+// - line3/line4/line5: a single straight run (line5 covers 5 or more)
+// - L, T, cross: a horizontal and a vertical run crossing at an end or middle
+// Any group containing a run of 5+ counts as line5 since that takes priority
+export type MatchShape = 'line3' | 'line4' | 'line5' | 'L' | 'T' | 'cross';
+
+// Score/effect weighting per shape - bigger and crossed shapes pay out more
+export const SHAPE_MULTIPLIERS: Record<MatchShape, number> = {
+  line3: 1,
+  line4: 1.3,
+  line5: 1.6,
+  L: 1.5,
+  T: 1.5,
+  cross: 1.8,
+};
+
+// Find match positions with row/col coordinates
+export interface MatchGroup {
+  positions: Array<{ row: number; col: number }>;
+  centerRow: number;
+  centerCol: number;
+  pieceCount: number;
+  shape: MatchShape;
+}
+
+// A maximal straight run of 3+ same-colored pieces
+interface MatchRun {
+  direction: 'horizontal' | 'vertical';
+  positions: Position[];
+}
+
+function findRuns(board: Board): MatchRun[] {
+  const runs: MatchRun[] = [];
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+
+  for (let row = 0; row < rows; row++) {
+    let start = 0;
+    while (start < cols) {
+      let end = start + 1;
+      while (end < cols && cellsMatch(board[row][end], board[row][start])) end++;
+      if (end - start >= 3) {
+        const positions: Position[] = [];
+        for (let col = start; col < end; col++) positions.push({ row, col });
+        runs.push({ direction: 'horizontal', positions });
+      }
+      start = end;
+    }
+  }
+
+  for (let col = 0; col < cols; col++) {
+    let start = 0;
+    while (start < rows) {
+      let end = start + 1;
+      while (end < rows && cellsMatch(board[end][col], board[start][col])) end++;
+      if (end - start >= 3) {
+        const positions: Position[] = [];
+        for (let row = start; row < end; row++) positions.push({ row, col });
+        runs.push({ direction: 'vertical', positions });
+      }
+      start = end;
+    }
+  }
+
+  return runs;
+}
+
+function findSharedCell(a: MatchRun, b: MatchRun): Position | undefined {
+  return a.positions.find(p => b.positions.some(q => p.row === q.row && p.col === q.col));
+}
+
+// Merge runs that share a cell into connected groups (crossing runs are
+// always the same color, since a cell has only one piece)
+function findRunGroups(board: Board): MatchRun[][] {
+  const groups: MatchRun[][] = [];
+
+  findRuns(board).forEach(run => {
+    const overlapping = groups.filter(group => group.some(other => findSharedCell(other, run)));
+    const merged = [run, ...overlapping.flat()];
+    overlapping.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push(merged);
+  });
+
+  return groups;
+}
+
+// First horizontal/vertical pair of runs that cross, with the crossing cell
+function findCrossing(runs: MatchRun[]) {
+  for (const horizontal of runs.filter(r => r.direction === 'horizontal')) {
+    for (const vertical of runs.filter(r => r.direction === 'vertical')) {
+      const cell = findSharedCell(horizontal, vertical);
+      if (cell) return { horizontal, vertical, cell };
+    }
+  }
+  return null;
+}
+
+function classifyShape(runs: MatchRun[]): MatchShape {
+  const longest = Math.max(...runs.map(run => run.positions.length));
+  if (longest >= 5) return 'line5';
+
+  const crossing = findCrossing(runs);
+  if (!crossing) return longest === 4 ? 'line4' : 'line3';
+
+  const isEnd = (run: MatchRun) => {
+    const index = run.positions.findIndex(
+      p => p.row === crossing.cell.row && p.col === crossing.cell.col
+    );
+    return index === 0 || index === run.positions.length - 1;
+  };
+  const horizontalEnd = isEnd(crossing.horizontal);
+  const verticalEnd = isEnd(crossing.vertical);
+
+  if (horizontalEnd && verticalEnd) return 'L';
+  if (horizontalEnd || verticalEnd) return 'T';
+  return 'cross';
+}
+
+// One group per connected set of matched cells, tagged with its shape
+export function findMatchPositions(board: Board): MatchGroup[] {
+  return findRunGroups(board).map(runs => {
+    const positions: Array<{ row: number; col: number }> = [];
+    runs.forEach(run =>
+      run.positions.forEach(p => {
+        if (!positions.some(q => q.row === p.row && q.col === p.col)) positions.push(p);
+      })
+    );
+
+    const sumRow = positions.reduce((sum, p) => sum + p.row, 0);
+    const sumCol = positions.reduce((sum, p) => sum + p.col, 0);
+
+    return {
+      positions,
+      centerRow: sumRow / positions.length,
+      centerCol: sumCol / positions.length,
+      pieceCount: positions.length,
+      shape: classifyShape(runs),
+    };
+  });
+}
+
+// Find which special candies the current matches create, keyed off group shape
+// - line5: color bomb
+// - L, T, cross: wrapped, placed where the runs cross
+// - line4: striped, clearing across the run (horizontal run -> column clear)
+// Line specials are placed where the player swapped if that cell is in the
+// match, otherwise in the middle of the run.
+export function findSpecialCreations(
+  board: Board,
+  swappedPositions: Position[] = []
+): SpecialCreation[] {
+  const creations: SpecialCreation[] = [];
+
+  const pickPosition = (positions: Position[]): Position => {
+    const swapped = positions.find(p =>
+      swappedPositions.some(s => s.row === p.row && s.col === p.col)
+    );
+    return swapped ?? positions[Math.floor((positions.length - 1) / 2)];
+  };
+
+  findRunGroups(board).forEach(runs => {
+    const shape = classifyShape(runs);
+    const longest = runs.reduce((a, b) => (b.positions.length > a.positions.length ? b : a));
+
+    switch (shape) {
+      case 'line5': {
+        const { row, col } = pickPosition(longest.positions);
+        creations.push({ row, col, special: 'colorBomb' });
+        break;
+      }
+      case 'L':
+      case 'T':
+      case 'cross': {
+        const { row, col } = findCrossing(runs)!.cell;
+        creations.push({ row, col, special: 'wrapped' });
+        break;
+      }
+      case 'line4': {
+        const { row, col } = pickPosition(longest.positions);
+        creations.push({
+          row,
+          col,
+          special: longest.direction === 'horizontal' ? 'stripedVertical' : 'stripedHorizontal',
+        });
+        break;
+      }
+    }
+  });
+
+  return creations;
+}
+
+// Pieces cleared when a special candy is activated
+function getSpecialArea(board: Board, piece: GamePiece, rng: Rng): GamePiece[] {
+  switch (piece.special) {
+    case 'stripedHorizontal':
+      return getPieces([board[piece.row]]);
+    case 'stripedVertical':
+      return getPieces(board.map(row => [row[piece.col]]));
+    case 'wrapped': {
+      const area: GamePiece[] = [];
+      for (let row = piece.row - 1; row <= piece.row + 1; row++) {
+        for (let col = piece.col - 1; col <= piece.col + 1; col++) {
+          const target = board[row]?.[col];
+          if (target) area.push(target);
+        }
+      }
+      return area;
+    }
+    case 'colorBomb': {
+      // Set off by another special: clear a random color still on the board
+      const pieces = getPieces(board).filter(p => p.special !== 'colorBomb' && !p.ingredient);
+      const colors = PIECE_TYPES.filter(type => pieces.some(p => p.type === type));
+      if (colors.length === 0) return [];
+      const color = pickRandom(rng, colors);
+      return pieces.filter(p => p.type === color);
+    }
+    default:
+      return [];
+  }
+}
+
+// Expand a set of cleared pieces with everything their special candies clear,
+// chaining through any specials caught in the blast. Ingredients ride out every
+// blast - they only leave the board at the bottom.
+export function expandSpecialActivations(
+  board: Board,
+  clearedIds: Set<string>,
+  rng: Rng,
+  spentIds: Set<string> = new Set()
+): Set<string> {
+  const piecesById = new Map<string, GamePiece>();
+  getPieces(board).forEach(piece => piecesById.set(piece.id, piece));
+
+  const expanded = new Set(clearedIds);
+  const activated = new Set(spentIds);
+  const queue = Array.from(clearedIds);
+
+  while (queue.length > 0) {
+    const piece = piecesById.get(queue.pop()!);
+    if (!piece?.special || activated.has(piece.id)) continue;
+    activated.add(piece.id);
+
+    getSpecialArea(board, piece, rng).forEach(target => {
+      if (!expanded.has(target.id)) {
+        expanded.add(target.id);
+        queue.push(target.id);
+      }
+    });
+  }
+
+  piecesById.forEach(piece => {
+    if (piece.ingredient) expanded.delete(piece.id);
+  });
+  return expanded;
+}
+
+// Swapping a color bomb is always a valid move: it clears every piece of the
+// color it was swapped with (or the whole board when two bombs meet).
+// Returns null when neither swapped piece is a color bomb, or the other one is
+// an ingredient (which has no color to clear).
+export function getSwapActivation(
+  board: Board,
+  pos1: Position,
+  pos2: Position
+): { clearedIds: Set<string>; spentIds: Set<string> } | null {
+  const piece1 = board[pos1.row][pos1.col];
+  const piece2 = board[pos2.row][pos2.col];
+  if (!piece1 || !piece2) return null;
+  const bombs = [piece1, piece2].filter(p => p.special === 'colorBomb');
+  if (bombs.length === 0) return null;
+
+  const spentIds = new Set(bombs.map(p => p.id));
+  const allPieces = getPieces(board);
+
+  if (bombs.length === 2) {
+    return { clearedIds: new Set(allPieces.map(p => p.id)), spentIds };
+  }
+
+  const target = piece1.special === 'colorBomb' ? piece2 : piece1;
+  if (target.ingredient) return null;
+  const clearedIds = new Set(spentIds);
+  allPieces
+    .filter(p => p.type === target.type && p.special !== 'colorBomb' && !p.ingredient)
+    .forEach(p => clearedIds.add(p.id));
+
+  return { clearedIds, spentIds };
+}
+
+// Helper to get forbidden types for a position (to avoid creating matches)
+// Empty cells and holes never count towards a line
+function getForbiddenTypes(board: Board, row: number, col: number): PieceType[] {
+  const typeAt = (r: number, c: number) => board[r]?.[c]?.type;
+  const forbidden: PieceType[] = [];
+
+  // Pairs of neighbours that would line up with this cell: two to the left,
+  // two to the right, one either side, and the same vertically
+  const pairs: Array<[Position, Position]> = [
+    [{ row, col: col - 1 }, { row, col: col - 2 }],
+    [{ row, col: col + 1 }, { row, col: col + 2 }],
+    [{ row, col: col - 1 }, { row, col: col + 1 }],
+    [{ row: row - 1, col }, { row: row - 2, col }],
+    [{ row: row + 1, col }, { row: row + 2, col }],
+    [{ row: row - 1, col }, { row: row + 1, col }],
+  ];
+
+  pairs.forEach(([a, b]) => {
+    const type = typeAt(a.row, a.col);
+    if (type && type === typeAt(b.row, b.col)) {
+      forbidden.push(type);
+    }
+  });
+
+  return Array.from(new Set(forbidden)); // Remove duplicates
+}
+
+// One step of a cascade, in the order the UI should animate it
+// - cleared: matched pieces pop
+// - blockerHit: a lock or ice took the hit instead of its piece
+// - transformed: a matched piece stays behind as a special candy
+// - moved: a surviving piece falls from one cell to another
+// - spawned: a new piece drops into a column from `dropDistance` rows above its cell
+export type CascadeEvent =
+  | { type: 'cleared'; ids: string[] }
+  | { type: 'transformed'; id: string; at: Position; special: SpecialType }
+  | { type: 'moved'; id: string; from: Position; to: Position }
+  | { type: 'spawned'; id: string; at: Position; dropDistance: number }
+  | { type: 'blockerHit'; id: string; at: Position; blocker?: Blocker }; // blocker omitted once broken
+
+export interface CascadeResult {
+  board: Board;
+  timeline: CascadeEvent[];
+}
+
+// Remove matched pieces and apply gravity, recording what happened step by step
+// Pieces at special creation positions survive and turn into the special candy.
+// Pieces fall straight down past holes but come to rest on blockers; new pieces
+// fill the top open cells of each stretch of column between blockers. Up to
+// `ingredients` of the pieces entering from the top of the board drop in as
+// ingredients.
+export function resolveCascade(
+  board: Board,
+  matchedIds: Set<string>,
+  rng: Rng,
+  specialCreations: SpecialCreation[] = [],
+  spawn: SpawnRules = DEFAULT_SPAWN_RULES,
+  ingredients = 0
+): CascadeResult {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const newBoard = board.map(row => [...row]);
+  const transformed: CascadeEvent[] = [];
+  const moved: CascadeEvent[] = [];
+  const spawned: CascadeEvent[] = [];
+  const topEntries: Position[] = []; // Highest new piece in each column's top stretch
+
+  const keptIds = new Set<string>();
+  specialCreations.forEach(({ row, col, special }) => {
+    const cell = newBoard[row][col];
+    if (!cell) return;
+    const piece = { ...cell, special };
+    newBoard[row][col] = piece;
+    keptIds.add(piece.id);
+    transformed.push({ type: 'transformed', id: piece.id, at: { row, col }, special });
+  });
+
+  // Blockers soak up clears: a matched lock breaks instead of its piece, and ice
+  // cracks when a match touches it or a blast reaches it
+  const hitBlockers: CascadeEvent[] = [];
+  const clearedPieces = getPieces(board).filter(p => matchedIds.has(p.id) && !p.blocker);
+  getPieces(newBoard).forEach(piece => {
+    const { blocker, row, col } = piece;
+    if (!blocker) return;
+    const isHit =
+      matchedIds.has(piece.id) ||
+      (blocker.type === 'ice' && clearedPieces.some(p => areAdjacent(p, piece)));
+    if (!isHit) return;
+
+    const next: Blocker | undefined =
+      blocker.type === 'ice' && blocker.hits > 1 ? { type: 'ice', hits: blocker.hits - 1 } : undefined;
+    newBoard[row][col] = { ...piece, blocker: next };
+    keptIds.add(piece.id);
+    hitBlockers.push({ type: 'blockerHit', id: piece.id, at: { row, col }, blocker: next });
+  });
+
+  const clearedIds = getPieces(board)
+    .filter(piece => matchedIds.has(piece.id) && !keptIds.has(piece.id))
+    .map(piece => piece.id);
+
+  // Remove matched pieces and apply gravity column by column
+  for (let col = 0; col < cols; col++) {
+    // Open cells in this column, bottom to top, split at blockers. Each stretch
+    // settles on its own, refilled from `entryRow` (the top of the board, or the
+    // cell under the blocker above it).
+    const stretches: Array<{ openRows: number[]; entryRow: number }> = [];
+    let stretch: number[] = [];
+    for (let row = rows - 1; row >= 0; row--) {
+      const cell = newBoard[row][col];
+      if (!cell) continue;
+      if (cell.blocker) {
+        stretches.push({ openRows: stretch, entryRow: row + 1 });
+        stretch = [];
+      } else {
+        stretch.push(row);
+      }
+    }
+    stretches.push({ openRows: stretch, entryRow: 0 });
+
+    stretches.forEach(({ openRows, entryRow }) => {
+      let filled = 0;
+      openRows.forEach(row => {
+        const piece = newBoard[row][col]!;
+        if (matchedIds.has(piece.id) && !keptIds.has(piece.id)) return;
+        const writePos = openRows[filled++];
+        if (row !== writePos) {
+          moved.push({ type: 'moved', id: piece.id, from: { row, col }, to: { row: writePos, col } });
+        }
+        // Copy moved pieces so boards from earlier turns (and simulations) stay intact
+        newBoard[writePos][col] = piece.row === writePos ? piece : { ...piece, row: writePos };
+      });
+
+      // Fill empty spaces with new pieces (avoiding matches)
+      // They enter stacked above the stretch, so all fall the same distance
+      const emptyRows = openRows.slice(filled);
+      const dropDistance = emptyRows.length > 0 ? emptyRows[0] - entryRow + 1 : 0;
+      emptyRows.forEach(row => {
+        const forbiddenTypes = getForbiddenTypes(newBoard, row, col);
+        const piece = generateRandomPiece(rng, row, col, forbiddenTypes, spawn);
+        newBoard[row][col] = piece;
+        spawned.push({ type: 'spawned', id: piece.id, at: { row, col }, dropDistance });
+      });
+      if (entryRow === 0 && emptyRows.length > 0) {
+        topEntries.push({ row: emptyRows[emptyRows.length - 1], col });
+      }
+    });
+  }
+
+  for (let i = 0; i < ingredients && topEntries.length > 0; i++) {
+    const [{ row, col }] = topEntries.splice(randomInt(rng, topEntries.length), 1);
+    newBoard[row][col] = { ...newBoard[row][col]!, ingredient: true };
+  }
+
+  return {
+    board: newBoard,
+    timeline: [
+      { type: 'cleared', ids: clearedIds },
+      ...hitBlockers,
+      ...transformed,
+      ...moved,
+      ...spawned,
+    ],
+  };
+}
+
+// Remove matched pieces and apply gravity (board only, no timeline)
+export function removeMatchedAndApplyGravity(
+  board: Board,
+  matchedIds: Set<string>,
+  rng: Rng,
+  specialCreations: SpecialCreation[] = [],
+  spawn: SpawnRules = DEFAULT_SPAWN_RULES
+): Board {
+  return resolveCascade(board, matchedIds, rng, specialCreations, spawn).board;
+}
+
+// An ingredient is collected once nothing but holes lies below it
+function isAtBottom(board: Board, piece: GamePiece): boolean {
+  return board.slice(piece.row + 1).every(line => line[piece.col] === null);
+}
+
+// Ingredients that have reached the bottom of their column
+export function findArrivedIngredients(board: Board): Set<string> {
+  return new Set(
+    getPieces(board)
+      .filter(piece => piece.ingredient && isAtBottom(board, piece))
+      .map(piece => piece.id)
+  );
+}
+
+// Turn the top piece of up to `count` random columns into ingredients (columns
+// whose top piece is blocked, already an ingredient, or already at the bottom
+// are skipped)
+export function addIngredients(board: Board, rng: Rng, count: number): Board {
+  const newBoard = board.map(line => [...line]);
+  const tops = newBoard[0]
+    .map((_, col) => newBoard.find(line => line[col] !== null)?.[col] ?? null)
+    .filter(
+      (piece): piece is GamePiece =>
+        !!piece && !piece.blocker && !piece.ingredient && !isAtBottom(newBoard, piece)
+    );
+
+  for (let i = 0; i < count && tops.length > 0; i++) {
+    const [piece] = tops.splice(randomInt(rng, tops.length), 1);
+    newBoard[piece.row][piece.col] = { ...piece, ingredient: true };
+  }
+  return newBoard;
+}
+
+// Jelly is a background layer that lives on cells, not pieces: every piece
+// cleared from a cell strips one layer from the jelly under it
+export function clearJelly(jelly: number[][], board: Board, clearedIds: Set<string>): number[][] {
+  return jelly.map((line, row) =>
+    line.map((layers, col) => {
+      const piece = board[row]?.[col];
+      return layers > 0 && piece && clearedIds.has(piece.id) ? layers - 1 : layers;
+    })
+  );
+}
+
+// Jelly layers left on the board
+export function countJelly(jelly: number[][]): number {
+  return jelly.reduce((total, line) => total + line.reduce((sum, layers) => sum + layers, 0), 0);
+}
+
+// Rearrange the existing pieces into a board with no immediate matches and at
+// least one legal move. Piece ids are kept so the UI can animate them moving.
+// Holes, blocked pieces and ingredients stay where they are.
+// Falls back to recoloring the plain pieces if no arrangement is found (e.g.
+// too few of any one color). A board that has no room for a move at all comes
+// back as it was - never with matches on it - and the caller checks for a move.
+// (The board given is always a settled one, so it has no matches itself.)
+const MAX_SHUFFLE_ATTEMPTS = 100;
+
+export function shuffleBoard(
+  board: Board,
+  rng: Rng,
+  spawn: SpawnRules = DEFAULT_SPAWN_RULES
+): Board {
+  const staysPut = (piece: GamePiece) => !!piece.blocker || !!piece.ingredient;
+  const pieces = getPieces(board).filter(piece => !staysPut(piece));
+
+  for (let attempt = 0; attempt < MAX_SHUFFLE_ATTEMPTS; attempt++) {
+    // Fisher-Yates shuffle
+    for (let i = pieces.length - 1; i > 0; i--) {
+      const j = randomInt(rng, i + 1);
+      [pieces[i], pieces[j]] = [pieces[j], pieces[i]];
+    }
+
+    let next = 0;
+    const shuffled: Board = board.map((line, row) =>
+      line.map((cell, col) => (cell && !staysPut(cell) ? { ...pieces[next++], row, col } : cell))
+    );
+
+    if (findMatches(shuffled).size === 0 && hasPossibleMove(shuffled)) {
+      return shuffled;
+    }
+  }
+
+  // No arrangement works, so give the plain pieces new colors instead.
+  // Blockers, ingredients and specials keep their places (and pieces their ids).
+  const recolors = (piece: GamePiece) => !staysPut(piece) && !piece.special;
+  for (let attempt = 0; attempt < MAX_SHUFFLE_ATTEMPTS; attempt++) {
+    const recolored = board.map(line => line.map(cell => (cell && recolors(cell) ? null : cell)));
+    board.forEach((line, row) =>
+      line.forEach((cell, col) => {
+        if (!cell || !recolors(cell)) return;
+        const { type } = generateRandomPiece(rng, row, col, getForbiddenTypes(recolored, row, col), spawn);
+        recolored[row][col] = { ...cell, type };
+      })
+    );
+    if (findMatches(recolored).size === 0 && hasPossibleMove(recolored)) return recolored;
+  }
+  return board;
+}
+
+// Get level configuration
+export function getLevelConfig(level: number): LevelConfig {
+  const baseGridSize = 7;
+  const baseTimeLimit = 120;
+  const baseTargetScore = 1000;
+
+  // Progressive difficulty:
+  // - Target score increases by 500 per level
+  // - Grid size increases every 3 levels (max 10)
+  // - Time limit decreases by 3 seconds per level (minimum 45 seconds)
+  // - Lives stay at 3
+  // - Hints drop from 3 to 1 over the first 10 levels
+  // - Every 4th level is a move-limited puzzle with no timer
+  // - From level 10, timed levels also cap the number of moves
+  const isPuzzleLevel = level % 4 === 0;
+  const timeLimit = Math.max(baseTimeLimit - (level - 1) * 3, 45);
+
+  const gridSize = Math.min(baseGridSize + Math.floor(level / 3), 10);
+
+  return {
+    level,
+    rows: gridSize,
+    cols: gridSize,
+    timeLimit: isPuzzleLevel ? undefined : timeLimit,
+    targetScore: baseTargetScore + (level - 1) * 500,
+    initialLives: 3,
+    moveLimit: isPuzzleLevel
+      ? Math.round(20 + level * 1.5)
+      : level >= 10
+        ? 25 + level * 2
+        : undefined,
+    hints: Math.max(3 - Math.floor((level - 1) / 5), 1),
+    hintDelay: 8,
+  };
+}
+
+// Moves left on a move-limited level, or null when moves are unlimited
+export function getMovesRemaining(config: LevelConfig, moves: number): number | null {
+  return config.moveLimit === undefined ? null : Math.max(config.moveLimit - moves, 0);
+}
+
+// Calculate score for matches
+export function calculateScore(matchCount: number): number {
+  // Base score of 60 + 30 per matched piece, with bonus for larger matches
+  const baseScore = 60 + matchCount * 30;
+  // Bonus multiplier: 1.5x for 4 matches, 2x for 5, 2.5x for 6, etc.
+  const multiplier = matchCount > 3 ? 1 + (matchCount - 3) * 0.5 : 1;
+  return Math.floor(baseScore * multiplier);
+}
+
+// What each match group of a clear scores: the clear's base score (by pieces
+// cleared, special blasts included) shared out by group size, and each share
+// weighted by its shape
+export function scoreMatchGroups(groups: MatchGroup[], clearedCount: number): number[] {
+  const base = calculateScore(clearedCount);
+  const pieces = groups.reduce((sum, group) => sum + group.pieceCount, 0);
+  return groups.map(group =>
+    Math.floor(((base * group.pieceCount) / pieces) * SHAPE_MULTIPLIERS[group.shape])
+  );
+}
+
+// Check if level is complete
+export function isLevelComplete(
+  score: number,
+  targetScore: number,
+  lives: number
+): boolean {
+  return score >= targetScore && lives > 0;
+}
+
+// How much of an objective is left to do (points, jelly layers, pieces or ingredients)
+export function getObjectiveRemaining(
+  objective: LevelObjective,
+  progress: ObjectiveProgress
+): number {
+  switch (objective.type) {
+    case 'score':
+      return Math.max(objective.target - progress.score, 0);
+    case 'clearJelly':
+      return progress.jellyRemaining;
+    case 'collect':
+      return Math.max(objective.count - (progress.collected[objective.color] ?? 0), 0);
+    case 'ingredients':
+      return Math.max(objective.count - progress.ingredientsCollected, 0);
+  }
+}
+
+// Where a finished level stands, for awarding stars
+export interface LevelOutcome {
+  score: number;
+  timeRemaining: number | null;
+  movesRemaining: number | null;
+}
+
+type StarRules = Pick<LevelConfig, 'targetScore' | 'timeLimit' | 'moveLimit' | 'starThresholds' | 'starMetric'>;
+
+// What the stars measure. A level ends as soon as its target is reached, so
+// score above the target only comes from the last move's cascade - stars go
+// by the time or moves left instead, unless the level's thresholds were
+// written as scores (thresholds given without a metric)
+export function getStarMetric(config: StarRules): StarMetric {
+  if (config.starMetric) return config.starMetric;
+  if (config.starThresholds) return 'score';
+  if (config.moveLimit !== undefined) return 'movesLeft';
+  if (config.timeLimit !== undefined) return 'timeLeft';
+  return 'score';
+}
+
+// Share of the level's time or moves still left for two and three stars,
+// when the level doesn't give its own thresholds
+const DEFAULT_STAR_SHARES: Record<'timeLeft' | 'movesLeft', [number, number]> = {
+  timeLeft: [0.3, 0.6],
+  movesLeft: [0.2, 0.4],
+};
+
+// Thresholds for one, two and three stars. By default one star for a win, and
+// the others for a share of the time or moves left; a level with neither
+// gets all three for reaching its target.
+export function getStarThresholds(config: StarRules): [number, number, number] {
+  if (config.starThresholds) return config.starThresholds;
+  const metric = getStarMetric(config);
+  if (metric === 'score') return [config.targetScore, config.targetScore, config.targetScore];
+  const limit = (metric === 'timeLeft' ? config.timeLimit : config.moveLimit) ?? 0;
+  const [two, three] = DEFAULT_STAR_SHARES[metric];
+  return [0, Math.round(limit * two), Math.round(limit * three)];
+}
+
+// Stars earned for beating a level: always at least one, plus one for each
+// further threshold the outcome reaches
+export function calculateStars(config: LevelConfig, outcome: LevelOutcome): number {
+  const metric = getStarMetric(config);
+  const value =
+    metric === 'timeLeft'
+      ? (outcome.timeRemaining ?? 0)
+      : metric === 'movesLeft'
+        ? (outcome.movesRemaining ?? 0)
+        : outcome.score;
+  const reached = getStarThresholds(config).filter(threshold => value >= threshold).length;
+  return Math.max(reached, 1);
+}
+
+// Check a single level objective against the player's progress
+export function isObjectiveComplete(
+  objective: LevelObjective,
+  progress: ObjectiveProgress
+): boolean {
+  return getObjectiveRemaining(objective, progress) === 0;
+}
+
+// Ingredients the level needs brought down (0 when it has no ingredient objective)
+export function getIngredientCount(config: LevelConfig): number {
+  return Math.max(
+    0,
+    ...(config.objectives ?? []).map(objective =>
+      objective.type === 'ingredients' ? objective.count : 0
+    )
+  );
+}
+
+// Check if game is over
+// null time/moves means that limit doesn't apply to the level
+export function isGameOver(
+  lives: number,
+  timeRemaining: number | null,
+  movesRemaining: number | null = null
+): boolean {
+  return (
+    lives <= 0 ||
+    (timeRemaining !== null && timeRemaining <= 0) ||
+    (movesRemaining !== null && movesRemaining <= 0)
+  );
+}
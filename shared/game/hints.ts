@@ -0,0 +1,99 @@
+/**
+ * Hint Engine
+ * - Ranks every legal swap by the score it would earn
+ * - Simulates the full cascade (specials, refills, chain matches)
+ * - Runs on a copy of the board and RNG so the real game is untouched
+ */
+
+import {
+  Board,
+  Move,
+  SHAPE_MULTIPLIERS,
+  SpawnRules,
+  calculateScore,
+  expandSpecialActivations,
+  findAllPossibleMoves,
+  findMatchPositions,
+  findMatches,
+  findSpecialCreations,
+  getSwapActivation,
+  removeMatchedAndApplyGravity,
+  scoreMatchGroups,
+  swapPieces,
+} from './gameLogic';
+import { Rng, cloneRng } from './random';
+
+export interface Hint {
+  move: Move;
+  expectedScore: number;
+  cascades: number;
+}
+
+// Stop simulating after this many cascade steps (guards against pathological boards)
+const MAX_SIMULATED_CASCADES = 20;
+
+export interface SimulatedMove {
+  score: number;
+  cascades: number;
+  board: Board; // The board once everything has settled
+  rng: Rng; // The simulation's copy of the generator, advanced past the refills
+}
+
+// Simulate a swap and everything it sets off, returning the total score
+export function simulateMove(
+  board: Board,
+  move: Move,
+  rng: Rng,
+  spawn?: SpawnRules
+): SimulatedMove {
+  const simRng = cloneRng(rng);
+  let current = swapPieces(board, move.from, move.to);
+  let score = 0;
+  let cascades = 0;
+
+  const swapActivation = getSwapActivation(current, move.from, move.to);
+  let cleared = findMatches(current);
+  swapActivation?.clearedIds.forEach(id => cleared.add(id));
+  let spentIds = swapActivation?.spentIds;
+  let swappedPositions = [move.from, move.to];
+
+  while (cleared.size > 0 && cascades < MAX_SIMULATED_CASCADES) {
+    const matchedIds = expandSpecialActivations(current, cleared, simRng, spentIds);
+    const creations = findSpecialCreations(current, swappedPositions);
+
+    // Scored as the game scores it: a color bomb swap lines nothing up, and
+    // counts as the line5 that made the bomb
+    const groups = findMatchPositions(current);
+    score +=
+      groups.length > 0
+        ? scoreMatchGroups(groups, matchedIds.size).reduce((sum, value) => sum + value, 0)
+        : Math.floor(calculateScore(matchedIds.size) * SHAPE_MULTIPLIERS.line5);
+    current = removeMatchedAndApplyGravity(current, matchedIds, simRng, creations, spawn);
+    cascades++;
+
+    cleared = findMatches(current);
+    spentIds = undefined;
+    swappedPositions = [];
+  }
+
+  return { score, cascades, board: current, rng: simRng };
+}
+
+// All legal swaps, best first
+export function rankHints(board: Board, rng: Rng, spawn?: SpawnRules): Hint[] {
+  return findAllPossibleMoves(board)
+    .map(move => {
+      const { score, cascades } = simulateMove(board, move, rng, spawn);
+      return { move, expectedScore: score, cascades };
+    })
+    .sort((a, b) => b.expectedScore - a.expectedScore);
+}
+
+// The recommended swap, or null when the board has no legal move
+export function findBestHint(
+  board: Board,
+  rng: Rng,
+  spawn?: SpawnRules
+): Hint | null {
+  return rankHints(board, rng, spawn)[0] ?? null;
+}
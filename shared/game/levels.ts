@@ -0,0 +1,350 @@
+/**
+ * Level Definitions
+ * - Hand-authored levels live in levels.json and are validated on load
+ * - The file format is versioned so level packs from other builds are rejected
+ *   with a clear error instead of half-loading
+ * - Levels past the last authored one fall back to the procedural formula
+ */
+
+import { z } from 'zod';
+import levelsFile from './levels.json';
+import { Blocker, LevelConfig, PieceType, getLevelConfig } from './gameLogic';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+// Layout rows use one character per cell: a color code for a fixed piece, '.'
+// for a cell that spawns randomly, or '#' for a hole cut out of the board
+export const LAYOUT_CODES: Record<string, PieceType> = {
+  R: 'red',
+  Y: 'yellow',
+  B: 'blue',
+  P: 'pink',
+  U: 'purple',
+  O: 'orange',
+};
+export const RANDOM_CELL = '.';
+export const HOLE_CELL = '#';
+
+// Jelly rows give the layers under each cell: '.' for none, or a digit up to this
+export const MAX_JELLY_LAYERS = 2;
+
+// Blocker rows mark what covers each starting piece: '.' for nothing, 'L' for a
+// lock, or a digit for ice that takes that many hits to break
+export const LOCK_CELL = 'L';
+export const MAX_ICE_HITS = 3;
+
+export const pieceTypeSchema = z.enum(['red', 'yellow', 'blue', 'pink', 'purple', 'orange']);
+
+// Ingredients a level can ask for
+export const MAX_INGREDIENTS = 10;
+
+const objectiveSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('score'), target: z.number().int().positive() }),
+  z.object({ type: z.literal('clearJelly') }),
+  z.object({
+    type: z.literal('collect'),
+    color: pieceTypeSchema,
+    count: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal('ingredients'),
+    count: z.number().int().positive().max(MAX_INGREDIENTS),
+  }),
+]);
+
+export const levelDefinitionSchema = z
+  .object({
+    level: z.number().int().positive(),
+    grid: z.object({
+      rows: z.number().int().min(5).max(12),
+      cols: z.number().int().min(5).max(12),
+    }),
+    colors: z.array(pieceTypeSchema).min(3).optional(),
+    spawnWeights: z.partialRecord(pieceTypeSchema, z.number().positive()).optional(),
+    timeLimit: z.number().int().positive().optional(),
+    moveLimit: z.number().int().positive().optional(),
+    targetScore: z.number().int().positive(),
+    lives: z.number().int().positive().default(3),
+    hints: z.number().int().min(0).default(3),
+    hintDelay: z.number().min(0).default(8),
+    starThresholds: z.tuple([z.number(), z.number(), z.number()]).optional(),
+    starMetric: z.enum(['score', 'timeLeft', 'movesLeft']).optional(),
+    objectives: z.array(objectiveSchema).default([]),
+    layout: z.array(z.string()).optional(),
+    jelly: z.array(z.string()).optional(),
+    blockers: z.array(z.string()).optional(),
+  })
+  .superRefine((def, ctx) => {
+    const { rows, cols } = def.grid;
+    const colors: PieceType[] = def.colors ?? Object.values(LAYOUT_CODES);
+
+    if (new Set(colors).size !== colors.length) {
+      ctx.addIssue({ code: 'custom', path: ['colors'], message: 'Colors must not repeat' });
+    }
+    Object.keys(def.spawnWeights ?? {}).forEach(color => {
+      if (!colors.includes(color as PieceType)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['spawnWeights', color],
+          message: `${color} is not one of the level's colors`,
+        });
+      }
+    });
+
+    const stars = def.starThresholds;
+    if (stars && !(stars[0] <= stars[1] && stars[1] <= stars[2])) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['starThresholds'],
+        message: 'Star thresholds must be in ascending order',
+      });
+    }
+    // Stars for time or moves left need that limit, and thresholds within it
+    // (without thresholds, they default to a share of it)
+    const limit =
+      def.starMetric === 'timeLeft'
+        ? { value: def.timeLimit, name: 'time limit' }
+        : def.starMetric === 'movesLeft'
+          ? { value: def.moveLimit, name: 'move limit' }
+          : null;
+    if (limit && limit.value === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['starMetric'],
+        message: `Stars for ${def.starMetric} need a ${limit.name}`,
+      });
+    } else if (limit && stars && stars[2] > limit.value!) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['starThresholds'],
+        message: `Star thresholds can't exceed the ${limit.name}`,
+      });
+    }
+
+    if (def.jelly) {
+      const jelly = def.jelly;
+      if (jelly.length !== rows || jelly.some(line => line.length !== cols)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['jelly'],
+          message: `Jelly must be ${rows} rows of ${cols} cells`,
+        });
+      } else {
+        jelly.forEach((line, row) => {
+          Array.from(line).forEach((code, col) => {
+            if (code === RANDOM_CELL) return;
+            if (!/^\d$/.test(code) || Number(code) > MAX_JELLY_LAYERS) {
+              ctx.addIssue({
+                code: 'custom',
+                path: ['jelly', row],
+                message: `Jelly at column ${col} must be '.' or 1-${MAX_JELLY_LAYERS} layers`,
+              });
+            } else if (def.layout?.[row]?.[col] === HOLE_CELL && code !== '0') {
+              ctx.addIssue({
+                code: 'custom',
+                path: ['jelly', row],
+                message: `Jelly at column ${col} sits on a hole`,
+              });
+            }
+          });
+        });
+      }
+    }
+    const hasJelly = parseJelly(def.jelly ?? []).some(line => line.some(layers => layers > 0));
+    if (def.objectives.some(objective => objective.type === 'clearJelly') && !hasJelly) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['objectives'],
+        message: 'A clear-jelly objective needs some jelly on the board',
+      });
+    }
+    const collectColors: PieceType[] = [];
+    def.objectives.forEach((objective, index) => {
+      if (objective.type !== 'collect') return;
+      if (!colors.includes(objective.color)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['objectives', index, 'color'],
+          message: `${objective.color} is not one of the level's colors`,
+        });
+      } else if (collectColors.includes(objective.color)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['objectives', index, 'color'],
+          message: `Only one collect objective per color (${objective.color} repeats)`,
+        });
+      }
+      collectColors.push(objective.color);
+    });
+    if (def.objectives.filter(objective => objective.type === 'ingredients').length > 1) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['objectives'],
+        message: 'Only one ingredients objective per level',
+      });
+    }
+
+    if (def.blockers) {
+      const blockers = def.blockers;
+      if (blockers.length !== rows || blockers.some(line => line.length !== cols)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['blockers'],
+          message: `Blockers must be ${rows} rows of ${cols} cells`,
+        });
+      } else {
+        blockers.forEach((line, row) => {
+          Array.from(line).forEach((code, col) => {
+            if (code === RANDOM_CELL) return;
+            if (!parseBlocker(code)) {
+              ctx.addIssue({
+                code: 'custom',
+                path: ['blockers', row],
+                message: `Blocker at column ${col} must be '.', '${LOCK_CELL}' or 1-${MAX_ICE_HITS} ice hits`,
+              });
+            } else if (def.layout?.[row]?.[col] === HOLE_CELL) {
+              ctx.addIssue({
+                code: 'custom',
+                path: ['blockers', row],
+                message: `Blocker at column ${col} sits on a hole`,
+              });
+            }
+          });
+        });
+      }
+    }
+
+    if (!def.layout) return;
+    if (def.layout.length !== rows || def.layout.some(line => line.length !== cols)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['layout'],
+        message: `Layout must be ${rows} rows of ${cols} cells`,
+      });
+      return;
+    }
+    def.layout.forEach((line, row) => {
+      Array.from(line).forEach((code, col) => {
+        if (code === RANDOM_CELL || code === HOLE_CELL) return;
+        const type = LAYOUT_CODES[code];
+        if (!type || !colors.includes(type)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['layout', row],
+            message: `Unknown or disallowed cell '${code}' at column ${col}`,
+          });
+        }
+      });
+    });
+    if (def.layout.every(line => Array.from(line).every(code => code === HOLE_CELL))) {
+      ctx.addIssue({ code: 'custom', path: ['layout'], message: 'Layout has no open cells' });
+    }
+    if (hasFixedMatch(def.layout)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['layout'],
+        message: 'Layout must not start with a match',
+      });
+    }
+  });
+
+export const levelFileSchema = z
+  .object({
+    version: z.literal(LEVEL_FORMAT_VERSION, {
+      error: `Unsupported level format (expected version ${LEVEL_FORMAT_VERSION})`,
+    }),
+    levels: z.array(levelDefinitionSchema),
+  })
+  .superRefine((file, ctx) => {
+    const seen = new Set<number>();
+    file.levels.forEach((def, index) => {
+      if (seen.has(def.level)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['levels', index, 'level'],
+          message: `Level ${def.level} is defined more than once`,
+        });
+      }
+      seen.add(def.level);
+    });
+  });
+
+export type LevelDefinition = z.infer<typeof levelDefinitionSchema>;
+export type LevelFile = z.infer<typeof levelFileSchema>;
+
+// Three fixed pieces of one color in a row or column
+function hasFixedMatch(layout: string[]): boolean {
+  const at = (row: number, col: number) => layout[row]?.[col];
+  return layout.some((line, row) =>
+    Array.from(line).some((code, col) => {
+      if (code === RANDOM_CELL || code === HOLE_CELL) return false;
+      const horizontal = at(row, col + 1) === code && at(row, col + 2) === code;
+      const vertical = at(row + 1, col) === code && at(row + 2, col) === code;
+      return horizontal || vertical;
+    })
+  );
+}
+
+// Parse a level file, throwing a ZodError that describes every problem found
+export function parseLevelFile(data: unknown): LevelDefinition[] {
+  return levelFileSchema.parse(data).levels;
+}
+
+// Turn jelly rows into layer counts per cell
+export function parseJelly(jelly: string[]): number[][] {
+  return jelly.map(line => Array.from(line).map(code => Number(code) || 0));
+}
+
+function parseBlocker(code: string): Blocker | null {
+  if (code === LOCK_CELL) return { type: 'lock' };
+  const hits = Number(code);
+  return /^\d$/.test(code) && hits >= 1 && hits <= MAX_ICE_HITS ? { type: 'ice', hits } : null;
+}
+
+// Turn blocker rows into the blocker over each cell (null for none)
+export function parseBlockers(blockers: string[]): (Blocker | null)[][] {
+  return blockers.map(line => Array.from(line).map(parseBlocker));
+}
+
+// Turn layout rows into piece types (null for random cells and holes)
+export function parseLayout(layout: string[]): (PieceType | null)[][] {
+  return layout.map(line => Array.from(line).map(code => LAYOUT_CODES[code] ?? null));
+}
+
+// Playable cells of a layout, or undefined when it has no holes
+export function parseMask(layout: string[]): boolean[][] | undefined {
+  if (!layout.some(line => line.includes(HOLE_CELL))) return undefined;
+  return layout.map(line => Array.from(line).map(code => code !== HOLE_CELL));
+}
+
+export function toLevelConfig(def: LevelDefinition): LevelConfig {
+  return {
+    level: def.level,
+    rows: def.grid.rows,
+    cols: def.grid.cols,
+    mask: def.layout && parseMask(def.layout),
+    timeLimit: def.timeLimit,
+    targetScore: def.targetScore,
+    initialLives: def.lives,
+    moveLimit: def.moveLimit,
+    hints: def.hints,
+    hintDelay: def.hintDelay,
+    colors: def.colors,
+    spawnWeights: def.spawnWeights,
+    starThresholds: def.starThresholds,
+    starMetric: def.starMetric,
+    objectives: def.objectives,
+    layout: def.layout && parseLayout(def.layout),
+    jelly: def.jelly && parseJelly(def.jelly),
+    blockers: def.blockers && parseBlockers(def.blockers),
+  };
+}
+
+// Bundled levels, validated once at startup
+export const AUTHORED_LEVELS: LevelDefinition[] = parseLevelFile(levelsFile);
+
+// Configuration for any level: hand-authored if there is one, procedural otherwise
+export function loadLevelConfig(level: number): LevelConfig {
+  const def = AUTHORED_LEVELS.find(authored => authored.level === level);
+  return def ? toLevelConfig(def) : getLevelConfig(level);
+}
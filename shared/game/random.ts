@@ -0,0 +1,79 @@
+/**
+ * Seeded Random Number Generator
+ * - Deterministic mulberry32 PRNG so a seed always reproduces the same game
+ * - Plain, serializable state so it can be copied, saved and replayed
+ * - Piece ids come from a per-generator counter instead of the clock
+ */
+
+export interface Rng {
+  seed: number;
+  state: number;
+  idCounter: number;
+}
+
+// Create a generator from a 32-bit seed
+export function createRng(seed: number): Rng {
+  const normalized = seed >>> 0;
+  return {
+    seed: normalized,
+    state: normalized,
+    idCounter: 0,
+  };
+}
+
+// Copy a generator so simulations don't advance the original
+export function cloneRng(rng: Rng): Rng {
+  return { ...rng };
+}
+
+// Next float in [0, 1) (mulberry32)
+export function nextRandom(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Next integer in [0, maxExclusive)
+export function randomInt(rng: Rng, maxExclusive: number): number {
+  return Math.floor(nextRandom(rng) * maxExclusive);
+}
+
+// Pick a random element from a non-empty list
+export function pickRandom<T>(rng: Rng, items: readonly T[]): T {
+  return items[randomInt(rng, items.length)];
+}
+
+// Pick an element with probability proportional to its weight
+export function pickWeighted<T>(rng: Rng, items: readonly T[], weights: readonly number[]): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = nextRandom(rng) * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+// Unique, reproducible piece id
+export function nextPieceId(rng: Rng): string {
+  const id = `${rng.seed.toString(36)}-${rng.idCounter.toString(36)}`;
+  rng.idCounter++;
+  return id;
+}
+
+// Stable seed from a string (FNV-1a), so e.g. a date names the same board everywhere
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Fresh seed for a new game - the only place wall-clock entropy enters the engine
+export function createSeed(): number {
+  return (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ANIMATING_PHASES, GameState, createGameState, isFinished, reduceGame } from './gameEngine';
+import { LevelConfig } from './gameLogic';
+import { loadLevelConfig } from './levels';
+import { GameReplay, createReplay, gameReplaySchema, recordMove, replayGame } from './replay';
+import { DEFAULT_STRATEGIES, chooseMoveForState } from './solver';
+
+// Play a level live - the clock ticking between swaps, each swap animated
+// through with `advance` - recording it as the client does
+function playLive(config: LevelConfig, seed: number, secondsPerMove: number): { state: GameState; replay: GameReplay } {
+  let state = createGameState(config, seed);
+  let replay = createReplay(seed, config.level);
+  let at = 0;
+  let ticked = 0;
+
+  while (!isFinished(state)) {
+    at += secondsPerMove * 1000 + 137; // Off the whole second, as a player's taps are
+    for (; state.timeRemaining !== null && ticked < Math.floor(at / 1000) && !isFinished(state); ticked++) {
+      state = reduceGame(state, { type: 'tick' }).state;
+    }
+    if (isFinished(state)) break;
+
+    const choice = chooseMoveForState(state, DEFAULT_STRATEGIES.greedy);
+    if (!choice) break;
+    state = reduceGame(state, { type: 'swap', ...choice.move }).state;
+    replay = recordMove(replay, choice.move.from, choice.move.to, at);
+    while (ANIMATING_PHASES.includes(state.phase)) state = reduceGame(state, { type: 'advance' }).state;
+  }
+  // The game ended with its last swap, or when the clock ran out
+  const duration = state.timeRemaining === 0 ? config.timeLimit! * 1000 : replay.duration;
+  return { state, replay: { ...replay, duration } };
+}
+
+describe('replayGame', () => {
+  it.each([
+    { level: 1, seed: 11, secondsPerMove: 2, phase: 'won' }, // Timed
+    { level: 6, seed: 12, secondsPerMove: 50, phase: 'lost' }, // Timed, out of time
+    { level: 4, seed: 13, secondsPerMove: 1, phase: 'won' }, // Move-limited
+    { level: 10, seed: 14, secondsPerMove: 1, phase: 'lost' }, // Objectives, out of moves
+  ])('reproduces a $phase game of level $level exactly', ({ level, seed, secondsPerMove, phase }) => {
+    const config = loadLevelConfig(level);
+    const live = playLive(config, seed, secondsPerMove);
+    expect(live.state.phase).toBe(phase);
+    expect(gameReplaySchema.safeParse(live.replay).success).toBe(true);
+
+    const result = replayGame(config, live.replay);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.phase).toBe(live.state.phase);
+    expect(result.state.score).toBe(live.state.score);
+    expect(result.state.moves).toBe(live.state.moves);
+    expect(result.state.board).toEqual(live.state.board);
+  });
+
+  it('rejects a replay with a move that cannot be made', () => {
+    const config = loadLevelConfig(4);
+    const { replay } = playLive(config, 21, 1);
+    const tampered: GameReplay = {
+      ...replay,
+      moves: replay.moves.map((move, index) =>
+        index === 1 ? { ...move, to: { row: move.from.row + 2, col: move.from.col } } : move
+      ),
+    };
+    expect(replayGame(config, tampered)).toEqual({ ok: false, error: 'A move could not be made', moveIndex: 1 });
+  });
+
+  it('rejects moves made after a timed level ran out', () => {
+    const config = loadLevelConfig(1);
+    const { replay } = playLive(config, 22, 2);
+    const late = config.timeLimit! * 1000 + 500;
+    const padded = recordMove(replay, replay.moves[0].from, replay.moves[0].to, late);
+    const result = replayGame(config, padded);
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects a game claimed to have run on long past its end', () => {
+    const config = loadLevelConfig(4);
+    const { replay } = playLive(config, 23, 1);
+    const result = replayGame(config, { ...replay, duration: replay.duration + 10 * 60 * 1000 });
+    expect(result).toEqual({ ok: false, error: 'The game ran on past its end' });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Game Replays
+ * - A finished game is recorded as its seed, its level and every swap the
+ *   player made, each stamped with the time of play it was made at
+ * - Replaying runs the same engine over the record with animations skipped:
+ *   the level clock ticks once per second of play before each swap, and each
+ *   swap plays out fully before the next one
+ * - The server replays every submitted game, so the score it ranks is the one
+ *   the moves actually earn
+ */
+
+import { z } from 'zod';
+import {
+  ANIMATING_PHASES,
+  GameState,
+  createGameState,
+  isFinished,
+  reduceGame,
+} from './gameEngine';
+import { LevelConfig, Position } from './gameLogic';
+
+// More swaps than any level allows, to bound the work a replay can ask for
+export const MAX_REPLAY_MOVES = 500;
+
+// Swaps can't come closer together than the swap animation allows
+export const MIN_MOVE_INTERVAL_MS = 250;
+
+// Longer than any level's clock, to bound the times a replay can claim
+export const MAX_REPLAY_DURATION_MS = 60 * 60 * 1000;
+
+// Time a game can take to end after its last swap, for that swap's cascade to
+// play out and the level to settle
+export const MAX_END_DELAY_MS = 30 * 1000;
+
+const positionSchema = z.object({
+  row: z.number().int().min(0),
+  col: z.number().int().min(0),
+});
+
+export const replayMoveSchema = z.object({
+  from: positionSchema,
+  to: positionSchema,
+  at: z.number().int().min(0).max(MAX_REPLAY_DURATION_MS), // Milliseconds of play when the swap was made
+});
+
+export const gameReplaySchema = z
+  .object({
+    seed: z.number().int(),
+    level: z.number().int().positive(),
+    moves: z.array(replayMoveSchema).max(MAX_REPLAY_MOVES),
+    duration: z.number().int().min(0).max(MAX_REPLAY_DURATION_MS), // Milliseconds of play when the game ended
+  })
+  .superRefine(({ moves, duration }, ctx) => {
+    moves.forEach((move, index) => {
+      const previous = moves[index - 1];
+      if (previous && move.at - previous.at < MIN_MOVE_INTERVAL_MS) {
+        ctx.addIssue({ code: 'custom', path: ['moves', index, 'at'], message: 'Moves are too close together' });
+      }
+    });
+    if (moves.length > 0 && duration < moves[moves.length - 1].at) {
+      ctx.addIssue({ code: 'custom', path: ['duration'], message: 'Game ended before its last move' });
+    }
+  });
+
+// The latest a recorded game can have ended: once its last swap has played
+// out, or on a timed level when the clock runs out
+function getLatestEnd(config: LevelConfig, replay: GameReplay): number {
+  const lastMoveAt = replay.moves[replay.moves.length - 1]?.at ?? 0;
+  const clockEnd = config.timeLimit === undefined ? 0 : (config.timeLimit + 1) * 1000;
+  return Math.max(lastMoveAt + MAX_END_DELAY_MS, clockEnd);
+}
+
+export type ReplayMove = z.infer<typeof replayMoveSchema>;
+export type GameReplay = z.infer<typeof gameReplaySchema>;
+
+export type ReplayResult =
+  | { ok: true; state: GameState }
+  | { ok: false; error: string; moveIndex?: number };
+
+// A new, empty recording for a game started from this seed
+export function createReplay(seed: number, level: number): GameReplay {
+  return { seed, level, moves: [], duration: 0 };
+}
+
+export function recordMove(replay: GameReplay, from: Position, to: Position, at: number): GameReplay {
+  return { ...replay, moves: [...replay.moves, { from, to, at }], duration: at };
+}
+
+// Make one swap and let it play out with animations skipped, up to the
+// player's next turn (or the end of the game). Null if the swap isn't allowed.
+export function applyMove(state: GameState, from: Position, to: Position): GameState | null {
+  let next = reduceGame(state, { type: 'swap', from, to }).state;
+  if (next === state || !ANIMATING_PHASES.includes(next.phase)) return null;
+  while (ANIMATING_PHASES.includes(next.phase)) next = reduceGame(next, { type: 'advance' }).state;
+  return next;
+}
+
+// Play a recorded game through to where it ended
+export function replayGame(config: LevelConfig, replay: GameReplay): ReplayResult {
+  if (replay.duration > getLatestEnd(config, replay)) {
+    return { ok: false, error: 'The game ran on past its end' };
+  }
+
+  let state = createGameState(config, replay.seed);
+  let elapsed = 0; // Whole seconds the level clock has ticked through
+
+  // An untimed level has no clock to tick
+  const tickUntil = (at: number) => {
+    if (state.timeRemaining === null) return;
+    for (; elapsed < Math.floor(at / 1000) && !isFinished(state); elapsed++) {
+      state = reduceGame(state, { type: 'tick' }).state;
+    }
+  };
+
+  for (let moveIndex = 0; moveIndex < replay.moves.length; moveIndex++) {
+    const { from, to, at } = replay.moves[moveIndex];
+    tickUntil(at);
+    if (isFinished(state)) {
+      return { ok: false, error: 'Moves were made after the game ended', moveIndex };
+    }
+    const next = applyMove(state, from, to);
+    if (!next) return { ok: false, error: 'A move could not be made', moveIndex };
+    state = next;
+  }
+  tickUntil(replay.duration);
+
+  return { ok: true, state };
+}
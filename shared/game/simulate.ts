@@ -0,0 +1,148 @@
+/**
+ * Level Simulation
+ * - Plays a level headlessly with the real engine and a solver strategy as the player
+ * - The bot takes a fixed time over each move, so timed levels run down as
+ *   they would for a player of that speed
+ * - Summarizes many runs into the numbers used for tuning a level: pass rate,
+ *   score spread, moves, dead boards and cascade depth
+ */
+
+import {
+  ANIMATING_PHASES,
+  GameEvent,
+  GameState,
+  createGameState,
+  getStars,
+  isFinished,
+  reduceGame,
+} from './gameEngine';
+import { LevelConfig, Move } from './gameLogic';
+import { SolverStrategy, chooseMoveForState } from './solver';
+
+export interface SimulationOptions {
+  strategy: SolverStrategy;
+  moveTime: number; // Seconds the bot spends on each move, animations included
+}
+
+export interface RunResult {
+  seed: number;
+  won: boolean;
+  stars: number;
+  score: number;
+  moves: number;
+  deadBoards: number; // Times the board ran out of moves and was reshuffled
+  cascadeDepths: number[]; // For each move, how many times the board cleared
+}
+
+export interface Distribution {
+  mean: number;
+  min: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  max: number;
+}
+
+export interface LevelReport {
+  level: number;
+  runs: number;
+  passRate: number; // 0-1
+  score: Distribution;
+  averageMoves: number;
+  averageStars: number; // Over the runs that passed
+  deadBoardsPerRun: number;
+  deadBoardRunRate: number; // Share of runs (0-1) that hit at least one dead board
+  averageCascadeDepth: number; // Per move
+  maxCascadeDepth: number;
+}
+
+// Stops a level with neither a clock nor a move limit from playing forever
+const MAX_SIMULATED_MOVES = 500;
+
+// One swap and everything it sets off, through to the board coming to rest
+function playMove(state: GameState, move: Move): { state: GameState; events: GameEvent[] } {
+  const events: GameEvent[] = [];
+  let step = reduceGame(state, { type: 'swap', ...move });
+  events.push(...step.events);
+  while (ANIMATING_PHASES.includes(step.state.phase)) {
+    step = reduceGame(step.state, { type: 'advance' });
+    events.push(...step.events);
+  }
+  return { state: step.state, events };
+}
+
+// Play one game of the level from the seed until it's won or lost
+export function simulateRun(config: LevelConfig, seed: number, options: SimulationOptions): RunResult {
+  let state = createGameState(config, seed);
+  let clock = 0; // Seconds the bot has spent so far
+  let ticked = 0; // Whole seconds the level clock has counted down
+  let deadBoards = 0;
+  const cascadeDepths: number[] = [];
+
+  while (!isFinished(state) && state.moves < MAX_SIMULATED_MOVES) {
+    // Think, then move - the clock runs meanwhile
+    clock += options.moveTime;
+    for (; state.timeRemaining !== null && ticked < Math.floor(clock) && !isFinished(state); ticked++) {
+      state = reduceGame(state, { type: 'tick' }).state;
+    }
+    if (isFinished(state)) break;
+
+    const choice = chooseMoveForState(state, options.strategy);
+    if (!choice) break;
+    const { state: next, events } = playMove(state, choice.move);
+    let depth = 0;
+    events.forEach(event => {
+      if (event.type === 'matched') depth = Math.max(depth, event.combo);
+      if (event.type === 'shuffled') deadBoards++;
+    });
+    cascadeDepths.push(depth);
+    state = next;
+  }
+
+  const won = state.phase === 'won';
+  return {
+    seed,
+    won,
+    stars: won ? getStars(state) : 0,
+    score: state.score,
+    moves: state.moves,
+    deadBoards,
+    cascadeDepths,
+  };
+}
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Nearest-rank percentile of values already sorted ascending
+const percentile = (sorted: number[], fraction: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.max(Math.ceil(fraction * sorted.length) - 1, 0)];
+
+export function getDistribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: average(sorted),
+    min: sorted[0] ?? 0,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+export function summarizeRuns(level: number, results: RunResult[]): LevelReport {
+  const wins = results.filter(result => result.won);
+  const depths = results.flatMap(result => result.cascadeDepths);
+  return {
+    level,
+    runs: results.length,
+    passRate: results.length === 0 ? 0 : wins.length / results.length,
+    score: getDistribution(results.map(result => result.score)),
+    averageMoves: average(results.map(result => result.moves)),
+    averageStars: average(wins.map(result => result.stars)),
+    deadBoardsPerRun: average(results.map(result => result.deadBoards)),
+    deadBoardRunRate: average(results.map(result => (result.deadBoards > 0 ? 1 : 0))),
+    averageCascadeDepth: average(depths),
+    maxCascadeDepth: depths.reduce((max, depth) => Math.max(max, depth), 0),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Solver
+ * - Picks a move for a board using one of three strategies:
+ *   greedy (best immediate score), lookahead (best total over the next N
+ *   moves) and Monte Carlo (best average over random playouts)
+ * - Built on the hint engine's move simulation, so refills come from a copy of
+ *   the game's own generator - like the hints, it plays with perfect knowledge
+ *   of what will drop in
+ * - Plays for score only; jelly and ingredient objectives aren't weighed
+ * - Pure and synchronous: the client runs it in a Web Worker (lib/solver)
+ */
+
+import { Board, Move, SpawnRules, findAllPossibleMoves, getSpawnRules, isValidSwap } from './gameLogic';
+import { GameState } from './gameEngine';
+import { SimulatedMove, rankHints, simulateMove } from './hints';
+import { Rng, createRng, randomInt } from './random';
+
+export type SolverStrategy =
+  | { type: 'greedy' }
+  // Searches depth moves ahead, following only the beamWidth best-scoring moves at each step
+  | { type: 'lookahead'; depth: number; beamWidth?: number }
+  // Tries each move playouts times, following it with depth random moves
+  | { type: 'monteCarlo'; playouts: number; depth: number; seed?: number };
+
+export type SolverStrategyType = SolverStrategy['type'];
+
+export interface SolverChoice {
+  move: Move;
+  expectedScore: number; // What the strategy expects the move (and what follows) to earn
+}
+
+// Reasonable settings for each strategy - quick enough to pick a move in well under a second
+export const DEFAULT_STRATEGIES: Record<SolverStrategyType, SolverStrategy> = {
+  greedy: { type: 'greedy' },
+  lookahead: { type: 'lookahead', depth: 2, beamWidth: 4 },
+  monteCarlo: { type: 'monteCarlo', playouts: 8, depth: 3 },
+};
+
+const DEFAULT_BEAM_WIDTH = 4;
+const DEFAULT_PLAYOUT_SEED = 0x5eed;
+
+// Every legal move with what it sets off, best immediate score first
+function simulateAll(board: Board, rng: Rng, spawn?: SpawnRules): (SimulatedMove & { move: Move })[] {
+  return findAllPossibleMoves(board)
+    .map(move => ({ move, ...simulateMove(board, move, rng, spawn) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// The most a run of depth moves can earn from here, searching the beam's best moves
+function lookaheadValue(board: Board, rng: Rng, depth: number, beamWidth: number, spawn?: SpawnRules): number {
+  if (depth <= 0) return 0;
+  const candidates = simulateAll(board, rng, spawn).slice(0, beamWidth);
+  let best = 0;
+  for (const candidate of candidates) {
+    const value = candidate.score + lookaheadValue(candidate.board, candidate.rng, depth - 1, beamWidth, spawn);
+    if (value > best) best = value;
+  }
+  return best;
+}
+
+function chooseLookahead(
+  board: Board,
+  rng: Rng,
+  depth: number,
+  beamWidth: number,
+  spawn?: SpawnRules
+): SolverChoice | null {
+  let best: SolverChoice | null = null;
+  // Every first move is considered; the beam only narrows the replies
+  for (const candidate of simulateAll(board, rng, spawn)) {
+    const expectedScore =
+      candidate.score + lookaheadValue(candidate.board, candidate.rng, depth - 1, beamWidth, spawn);
+    if (!best || expectedScore > best.expectedScore) best = { move: candidate.move, expectedScore };
+  }
+  return best;
+}
+
+// A legal move found by scanning the board's swaps from a random starting point -
+// much cheaper than listing them all, at the cost of a slightly uneven choice
+function findRandomMove(board: Board, chooser: Rng): Move | null {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  // Each cell's swap to the right, then each cell's swap down
+  const swaps = rows * cols * 2;
+  const start = randomInt(chooser, swaps);
+  for (let offset = 0; offset < swaps; offset++) {
+    const index = (start + offset) % swaps;
+    const cell = index % (rows * cols);
+    const from = { row: Math.floor(cell / cols), col: cell % cols };
+    const to = index < rows * cols ? { row: from.row, col: from.col + 1 } : { row: from.row + 1, col: from.col };
+    if (to.row < rows && to.col < cols && isValidSwap(board, from, to)) return { from, to };
+  }
+  return null;
+}
+
+// Score from a run of random moves, stopping early at a dead board
+function playout(board: Board, rng: Rng, depth: number, chooser: Rng, spawn?: SpawnRules): number {
+  let total = 0;
+  for (let step = 0; step < depth; step++) {
+    const move = findRandomMove(board, chooser);
+    if (!move) break;
+    const result = simulateMove(board, move, rng, spawn);
+    total += result.score;
+    board = result.board;
+    rng = result.rng;
+  }
+  return total;
+}
+
+function chooseMonteCarlo(
+  board: Board,
+  rng: Rng,
+  playouts: number,
+  depth: number,
+  seed: number,
+  spawn?: SpawnRules
+): SolverChoice | null {
+  // The playouts' random choices have a generator of their own, so the game's
+  // refills are the same whichever move is being tried
+  const chooser = createRng(seed);
+  let best: SolverChoice | null = null;
+  for (const candidate of simulateAll(board, rng, spawn)) {
+    let total = 0;
+    for (let run = 0; run < playouts; run++) {
+      total += playout(candidate.board, candidate.rng, depth, chooser, spawn);
+    }
+    const expectedScore = candidate.score + total / Math.max(playouts, 1);
+    if (!best || expectedScore > best.expectedScore) best = { move: candidate.move, expectedScore };
+  }
+  return best;
+}
+
+// The move the strategy would make, or null when the board has no legal move
+export function chooseMove(
+  board: Board,
+  rng: Rng,
+  strategy: SolverStrategy,
+  spawn?: SpawnRules
+): SolverChoice | null {
+  switch (strategy.type) {
+    case 'greedy': {
+      const best = rankHints(board, rng, spawn)[0];
+      return best ? { move: best.move, expectedScore: best.expectedScore } : null;
+    }
+    case 'lookahead':
+      return chooseLookahead(
+        board,
+        rng,
+        Math.max(strategy.depth, 1),
+        strategy.beamWidth ?? DEFAULT_BEAM_WIDTH,
+        spawn
+      );
+    case 'monteCarlo':
+      return chooseMonteCarlo(
+        board,
+        rng,
+        strategy.playouts,
+        strategy.depth,
+        strategy.seed ?? DEFAULT_PLAYOUT_SEED,
+        spawn
+      );
+  }
+}
+
+// The move for a game in progress, with the level's own spawn rules
+export function chooseMoveForState(state: GameState, strategy: SolverStrategy): SolverChoice | null {
+  return chooseMove(state.board, state.rng, strategy, getSpawnRules(state.config));
+}
@@ -0,0 +1,121 @@
+/**
+ * Leaderboard API contract, shared by the server and the client
+ * - Boards: "global" (each player's best level scores added up), "level-<n>"
+ *   (best score on one level) and "daily-<YYYY-MM-DD>" (one attempt per day)
+ * - Players are identified by a private id kept on their device; only display
+ *   names are ever sent back out
+ * - Scores aren't taken on trust: a submission is the game's replay, and the
+ *   server plays it back to find the score
+ * - Level games are played on a seed the server deals out: each attempt comes
+ *   with a signed ticket naming its seed, and a ticket only counts once
+ */
+
+import { z } from "zod";
+import { gameReplaySchema } from "./game/replay";
+
+export const GLOBAL_BOARD = "global";
+export const MAX_PAGE_SIZE = 50;
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_NAME_LENGTH = 20;
+export const MAX_SCORE = 10_000_000;
+
+export type BoardId =
+  | { kind: "global" }
+  | { kind: "level"; level: number }
+  | { kind: "daily"; day: string };
+
+const LEVEL_BOARD_PATTERN = /^level-([1-9]\d{0,3})$/;
+const DAILY_BOARD_PATTERN = /^daily-(\d{4}-\d{2}-\d{2})$/;
+
+export function parseBoardId(board: string): BoardId | null {
+  if (board === GLOBAL_BOARD) return { kind: "global" };
+  const level = LEVEL_BOARD_PATTERN.exec(board);
+  if (level) return { kind: "level", level: Number(level[1]) };
+  const daily = DAILY_BOARD_PATTERN.exec(board);
+  if (daily && !Number.isNaN(Date.parse(daily[1]))) return { kind: "daily", day: daily[1] };
+  return null;
+}
+
+export function levelBoard(level: number): string {
+  return `level-${level}`;
+}
+
+export function dailyBoard(day: string): string {
+  return `daily-${day}`;
+}
+
+export const playerIdSchema = z.string().regex(/^[\w-]{16,64}$/);
+
+export const displayNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_NAME_LENGTH)
+  .regex(/^[^\x00-\x1f\x7f]+$/, { error: "Name can't contain control characters" });
+
+export const attemptRequestSchema = z.object({
+  playerId: playerIdSchema,
+});
+
+export const submitScoreSchema = z.object({
+  playerId: playerIdSchema,
+  name: displayNameSchema,
+  replay: gameReplaySchema,
+  attempt: z.string().max(1024).optional(), // The ticket a level game's seed came with
+});
+
+export type SubmitScoreRequest = z.infer<typeof submitScoreSchema>;
+
+export const pageQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  player: playerIdSchema.optional(), // Marks the asking player's own row
+});
+
+export const rankQuerySchema = z.union([
+  z.object({ player: playerIdSchema }),
+  z.object({ score: z.coerce.number().int().min(0).max(MAX_SCORE) }),
+]);
+
+export interface RankedEntry {
+  rank: number;
+  name: string;
+  score: number;
+  submittedAt: number;
+  isYou: boolean;
+}
+
+export interface LeaderboardPage {
+  board: string;
+  total: number;
+  offset: number;
+  entries: RankedEntry[];
+}
+
+// Where a player (or a score they haven't submitted) stands; rank is null for a
+// player who isn't on the board
+export interface RankResponse {
+  board: string;
+  total: number;
+  rank: number | null;
+  entry: RankedEntry | null;
+}
+
+// A level game the server has dealt: the seed to play, and the ticket to hand
+// back with the score
+export interface AttemptResponse {
+  board: string;
+  seed: number;
+  attempt: string;
+}
+
+export interface SubmitScoreResponse {
+  board: string;
+  rank: number;
+  isNewBest: boolean;
+  entry: RankedEntry;
+}
+
+export interface ApiError {
+  error: string;
+}
@@ -0,0 +1,104 @@
+/**
+ * Versus Mode protocol, shared by the server and the client
+ * - Two players get the same seeded board and race: first to RACE_TARGET, or
+ *   the higher score when a sprint's 90 seconds are up
+ * - Clients only send their swaps; the server plays each one on its own copy
+ *   of the game, so scores and the opponent's board come from the server
+ * - Messages are JSON over the WebSocket at VERSUS_SOCKET_PATH
+ */
+
+import { z } from "zod";
+import { LevelConfig, Move, PieceType } from "./game/gameLogic";
+import { displayNameSchema, playerIdSchema } from "./leaderboard";
+
+export const VERSUS_SOCKET_PATH = "/api/versus";
+
+export type VersusMode = "race" | "sprint";
+
+export const RACE_TARGET = 5000;
+
+// How long a match runs. A race that nobody finishes goes to the higher score.
+export const MATCH_DURATION_MS: Record<VersusMode, number> = {
+  race: 3 * 60 * 1000,
+  sprint: 90 * 1000,
+};
+
+// 3-2-1 before the boards unlock
+export const COUNTDOWN_MS = 3000;
+
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ"; // No I or O, which read as 1 and 0
+export const ROOM_CODE_LENGTH = 4;
+
+// The match clock belongs to the server, so the engine itself is untimed; a
+// sprint's target is out of reach so only the clock can end it
+export function getVersusConfig(mode: VersusMode): LevelConfig {
+  return {
+    level: 1,
+    rows: 8,
+    cols: 8,
+    targetScore: mode === "race" ? RACE_TARGET : Number.MAX_SAFE_INTEGER,
+    initialLives: 3,
+    hints: 0,
+    hintDelay: 0,
+  };
+}
+
+const positionSchema = z.object({
+  row: z.number().int().min(0),
+  col: z.number().int().min(0),
+});
+
+const roomCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .length(ROOM_CODE_LENGTH)
+  .refine(code => Array.from(code).every(char => ROOM_CODE_ALPHABET.includes(char)), {
+    error: "Not a room code",
+  });
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("create"),
+    mode: z.enum(["race", "sprint"]),
+    playerId: playerIdSchema,
+    name: displayNameSchema,
+  }),
+  // Joining a room you're already in (after a dropped connection or a reload) picks up where you were
+  z.object({ type: z.literal("join"), code: roomCodeSchema, playerId: playerIdSchema, name: displayNameSchema }),
+  z.object({ type: z.literal("move"), from: positionSchema, to: positionSchema }),
+  z.object({ type: z.literal("leave") }),
+]);
+
+export type VersusClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type VersusStatus = "waiting" | "countdown" | "playing" | "finished";
+
+export interface VersusPlayerView {
+  name: string;
+  connected: boolean;
+  score: number;
+  lives: number;
+  out: boolean; // Out of lives (or, in a race, over the line)
+  board: (PieceType | null)[][] | null; // For the opponent's mini-board; null before the match
+}
+
+export interface VersusRoomView {
+  code: string;
+  mode: VersusMode;
+  status: VersusStatus;
+  you: number; // Your index in players
+  players: VersusPlayerView[];
+  seed: number | null; // Set once both players are in
+  startsAt: number | null; // Server time the boards unlock
+  endsAt: number | null; // Server time the match ends
+  serverNow: number; // For working out the offset to the local clock
+  winner: number | null; // Once finished: the winning player's index, or null for a draw
+}
+
+export type VersusServerMessage =
+  | { type: "room"; room: VersusRoomView }
+  // Your own moves so far, sent on rejoining a match so the board can be rebuilt
+  | { type: "resync"; moves: Move[] }
+  | { type: "error"; message: string }
+  | { type: "left" };
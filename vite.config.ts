@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { jsxLocPlugin } from "@builder.io/vite-plugin-jsx-loc";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
@@ -23,6 +24,10 @@ export default defineConfig({
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,
   },
+  test: {
+    // The engine's specs sit beside it in shared/, outside the client root
+    dir: path.resolve(import.meta.dirname, "shared"),
+  },
   server: {
     port: 3000,
     strictPort: false, // Will find next available port if 3000 is busy